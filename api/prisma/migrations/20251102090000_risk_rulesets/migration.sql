@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "triage_runs" ADD COLUMN     "ruleset_version" INTEGER;
+
+-- CreateTable
+CREATE TABLE "risk_rulesets" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "description" TEXT,
+    "created_by" TEXT NOT NULL DEFAULT 'system',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activated_at" TIMESTAMP(3),
+
+    CONSTRAINT "risk_rulesets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "risk_rules" (
+    "id" TEXT NOT NULL,
+    "ruleset_id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "condition" JSONB NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "risk_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "risk_rulesets_version_key" ON "risk_rulesets"("version");
+
+-- CreateIndex
+CREATE INDEX "risk_rulesets_status_idx" ON "risk_rulesets"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "risk_rules_ruleset_id_code_key" ON "risk_rules"("ruleset_id", "code");
+
+-- AddForeignKey
+ALTER TABLE "risk_rules" ADD CONSTRAINT "risk_rules_ruleset_id_fkey" FOREIGN KEY ("ruleset_id") REFERENCES "risk_rulesets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "devices" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "fingerprint" TEXT,
+    "device_type" TEXT,
+    "os" TEXT,
+    "browser" TEXT,
+    "trusted" BOOLEAN NOT NULL DEFAULT false,
+    "first_seen" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "devices_customer_id_device_id_key" ON "devices"("customer_id", "device_id");
+
+-- AddForeignKey
+ALTER TABLE "devices" ADD CONSTRAINT "devices_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
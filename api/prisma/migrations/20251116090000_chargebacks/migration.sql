@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "chargebacks" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "txn_id" TEXT,
+    "amount_cents" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chargebacks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chargebacks_customer_id_created_at_idx" ON "chargebacks"("customer_id", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "chargebacks" ADD CONSTRAINT "chargebacks_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chargebacks" ADD CONSTRAINT "chargebacks_txn_id_fkey" FOREIGN KEY ("txn_id") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
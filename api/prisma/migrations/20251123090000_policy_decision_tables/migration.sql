@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "policies" ADD COLUMN     "decision_table" JSONB;
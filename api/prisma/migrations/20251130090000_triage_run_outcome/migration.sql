@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "triage_runs" ADD COLUMN     "recommendation" TEXT,
+ADD COLUMN     "score" DOUBLE PRECISION,
+ADD COLUMN     "trigger" TEXT NOT NULL DEFAULT 'manual';
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "closed_at" TIMESTAMP(3),
+ADD COLUMN     "sla_due_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "cases_status_sla_due_at_idx" ON "cases"("status", "sla_due_at");
+
+-- Backfill SLA deadlines for existing lifecycle cases (see lib/caseLifecycle.ts)
+UPDATE "cases"
+SET "sla_due_at" = "created_at" + CASE split_part(COALESCE("reason_code", ''), '.', 1)
+    WHEN '12' THEN INTERVAL '45 days'
+    WHEN '13' THEN INTERVAL '45 days'
+    ELSE INTERVAL '30 days'
+  END
+WHERE "type" IN ('dispute', 'fraud');
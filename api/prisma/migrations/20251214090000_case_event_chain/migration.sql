@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "event_head_hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "case_events" ADD COLUMN     "hash" TEXT,
+ADD COLUMN     "prev_hash" TEXT,
+ADD COLUMN     "seq" INTEGER;
+
+-- Number existing events per case; their hashes are sealed by `npm run audit:verify -- --seal`
+UPDATE "case_events" e
+SET "seq" = n.seq
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "case_id" ORDER BY "ts", "id") AS seq
+  FROM "case_events"
+) n
+WHERE e."id" = n."id";
+
+ALTER TABLE "case_events" ALTER COLUMN "seq" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "case_events_case_id_seq_key" ON "case_events"("case_id", "seq");
+
+-- Case events are append-only. The only update allowed is sealing a legacy
+-- (unhashed) event into the chain.
+CREATE FUNCTION case_events_append_only() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD."hash" IS NULL THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'case_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER case_events_append_only
+BEFORE UPDATE OR DELETE ON "case_events"
+FOR EACH ROW EXECUTE FUNCTION case_events_append_only();
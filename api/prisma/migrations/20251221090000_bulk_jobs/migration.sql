@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "parent_case_id" TEXT,
+ALTER COLUMN "customer_id" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "bulk_jobs" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "requested_by" TEXT NOT NULL,
+    "params_json" JSONB,
+    "total" INTEGER NOT NULL,
+    "succeeded" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "parent_case_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "bulk_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bulk_job_items" (
+    "job_id" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "target_type" TEXT NOT NULL,
+    "target_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "ok" BOOLEAN,
+    "result_json" JSONB,
+    "case_id" TEXT,
+    "processed_at" TIMESTAMP(3),
+
+    CONSTRAINT "bulk_job_items_pkey" PRIMARY KEY ("job_id","seq")
+);
+
+-- CreateIndex
+CREATE INDEX "cases_parent_case_id_idx" ON "cases"("parent_case_id");
+
+-- CreateIndex
+CREATE INDEX "bulk_jobs_created_at_idx" ON "bulk_jobs"("created_at");
+
+-- DropForeignKey
+ALTER TABLE "cases" DROP CONSTRAINT "cases_customer_id_fkey";
+
+-- AddForeignKey
+ALTER TABLE "cases" ADD CONSTRAINT "cases_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cases" ADD CONSTRAINT "cases_parent_case_id_fkey" FOREIGN KEY ("parent_case_id") REFERENCES "cases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bulk_jobs" ADD CONSTRAINT "bulk_jobs_parent_case_id_fkey" FOREIGN KEY ("parent_case_id") REFERENCES "cases"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bulk_job_items" ADD CONSTRAINT "bulk_job_items_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "bulk_jobs"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
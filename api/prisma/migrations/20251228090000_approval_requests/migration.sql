@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "approval_requests" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "target_id" TEXT,
+    "params_json" JSONB NOT NULL,
+    "requested_by" TEXT NOT NULL,
+    "decided_by" TEXT,
+    "decision_note" TEXT,
+    "result_json" JSONB,
+    "case_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "decided_at" TIMESTAMP(3),
+
+    CONSTRAINT "approval_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "approval_requests_status_expires_at_idx" ON "approval_requests"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "approval_requests_action_target_id_status_idx" ON "approval_requests"("action", "target_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "approval_requests" ADD CONSTRAINT "approval_requests_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
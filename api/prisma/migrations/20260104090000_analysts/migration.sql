@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "triage_runs" ADD COLUMN     "actor" TEXT;
+
+-- CreateTable
+CREATE TABLE "analysts" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'analyst',
+    "api_key_hash" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "analysts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "analysts_api_key_hash_key" ON "analysts"("api_key_hash");
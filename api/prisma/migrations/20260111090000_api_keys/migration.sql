@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "analyst_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3),
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "revoked_by" TEXT,
+    "rotated_to_id" TEXT,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "api_keys_analyst_id_idx" ON "api_keys"("analyst_id");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_analyst_id_fkey" FOREIGN KEY ("analyst_id") REFERENCES "analysts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Move each analyst's key into api_keys with the scopes their role uses
+INSERT INTO "api_keys" ("id", "name", "prefix", "key_hash", "scopes", "analyst_id", "created_by")
+SELECT gen_random_uuid()::text,
+       "id" || ' (migrated)',
+       '',
+       "api_key_hash",
+       CASE "role"
+         WHEN 'viewer' THEN ARRAY['cases:read', 'insights:read']
+         WHEN 'admin' THEN ARRAY['actions:write', 'ingest:write', 'insights:read', 'cases:read', 'admin']
+         ELSE ARRAY['actions:write', 'ingest:write', 'insights:read', 'cases:read']
+       END,
+       "id",
+       'migration'
+FROM "analysts"
+WHERE "api_key_hash" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "analysts_api_key_hash_key";
+
+-- AlterTable
+ALTER TABLE "analysts" DROP COLUMN "api_key_hash";
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "token_vault" (
+    "token" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "ciphertext" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_vault_pkey" PRIMARY KEY ("token")
+);
+
+-- CreateTable
+CREATE TABLE "token_access_log" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "found" BOOLEAN NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_access_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "token_access_log_token_idx" ON "token_access_log"("token");
+
+-- CreateIndex
+CREATE INDEX "token_access_log_actor_created_at_idx" ON "token_access_log"("actor", "created_at");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "approval_requests" ADD COLUMN "checker_role" TEXT;
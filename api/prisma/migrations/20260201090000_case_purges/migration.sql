@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "case_purges" (
+    "id" TEXT NOT NULL,
+    "case_id" TEXT NOT NULL,
+    "event_count" INTEGER NOT NULL,
+    "head_hash" TEXT,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "purged_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_purges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "case_purges_case_id_idx" ON "case_purges"("case_id");
+
+-- Case events stay append-only, except that a case's events may be deleted
+-- once its purge is recorded in case_purges (see purgeCases in
+-- lib/auditLog.ts). Without that record DELETE is still rejected.
+CREATE OR REPLACE FUNCTION case_events_append_only() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD."hash" IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'DELETE' AND EXISTS (SELECT 1 FROM "case_purges" WHERE "case_id" = OLD."case_id") THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'case_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
@@ -1,4 +1,7 @@
 import { PrismaClient } from '@prisma/client';
+import { DEFAULT_RULES } from '../src/lib/riskRules.js';
+import { DEFAULT_POLICIES } from '../src/lib/policies.js';
+import { createApiKey, ROLE_DEFAULT_SCOPES, INTEGRATION_SCOPES } from '../src/lib/apiKeys.js';
 
 const prisma = new PrismaClient();
 
@@ -85,6 +88,28 @@ async function main() {
     )
   );
 
+  // 3b. Create devices (1-3 per customer, first one trusted)
+  console.log('Creating devices...');
+  const devicesByCustomer = new Map<string, string[]>();
+  let deviceCount = 0;
+  for (const customer of customers) {
+    const numDevices = 1 + Math.floor(Math.random() * 3);
+    const deviceIds = Array.from({ length: numDevices }, () => `device_${Math.random().toString(36).slice(2, 10)}`);
+    devicesByCustomer.set(customer.id, deviceIds);
+
+    await prisma.device.createMany({
+      data: deviceIds.map((deviceId, i) => ({
+        customer_id: customer.id,
+        device_id: deviceId,
+        device_type: pick(['desktop', 'mobile', 'mobile']),
+        trusted: i === 0,
+        first_seen: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000),
+        last_seen: new Date()
+      }))
+    });
+    deviceCount += deviceIds.length;
+  }
+
   // 4. Create transactions (200k rows - this takes time!)
   console.log('Creating 200,000 transactions (this may take 2-3 minutes)...');
   
@@ -107,7 +132,7 @@ async function main() {
         amount_cents: Math.floor(Math.random() * 50000), // ₹0-₹500
         currency: 'INR',
         ts: randomDate(90), // Last 90 days
-        device_id: `device_${Math.floor(Math.random() * 1000)}`,
+        device_id: pick(devicesByCustomer.get(customer.id)!),
         country: 'IN',
         city: pick(CITIES),
         status: pick(['completed', 'completed', 'completed', 'pending'])
@@ -160,37 +185,115 @@ async function main() {
         title: 'False Positive Handling',
         anchor: 'false-positive',
         content_text: 'If customer confirms transaction is legitimate, mark alert as false positive and whitelist merchant.'
+      },
+      {
+        title: 'Velocity and Merchant Concentration',
+        anchor: 'velocity',
+        content_text: 'High velocity (many transactions in a short window) or spend concentrated at one merchant often indicates card testing or a compromised card. Contact the customer before freezing if amounts are small.'
+      },
+      {
+        title: 'Foreign and Large Amount Transactions',
+        anchor: 'foreign-large',
+        content_text: 'A large amount or a foreign transaction outside India on a card with only domestic history should be verified with the customer. Freeze the card if the customer cannot be reached.'
+      },
+      {
+        title: 'Account Takeover and New Devices',
+        anchor: 'account-takeover',
+        content_text: 'Transactions from a new device, a recently first-seen device or an untrusted device are the strongest account takeover indicator. Freeze the card and require OTP verification before re-enabling.'
+      },
+      {
+        title: 'Chargeback History and Friendly Fraud',
+        anchor: 'chargebacks',
+        content_text: 'Customers with a recent chargeback or repeat chargebacks who open new disputes may be committing friendly fraud. Review prior chargeback reasons before accepting a dispute.'
       }
     ]
   });
 
   // 7. Create policies
   console.log('Creating policies...');
+  const policyText: Record<string, string> = {
+    TRIAGE_BANDS: 'Risk score >= 0.6 recommends freezing the card, >= 0.3 contacting the customer, otherwise closing as false positive.',
+    OTP_REQUIRED: 'High-risk actions require OTP verification',
+    FREEZE_LIMIT: 'Agents can freeze cards up to KYC level 2. Level 3 requires lead approval.',
+    AUTO_CLOSE: 'Auto-triaged low-risk alerts scoring 0.1 or less with a false-positive recommendation are closed without analyst review.'
+  };
   await prisma.policy.createMany({
-    data: [
-      {
-        code: 'OTP_REQUIRED',
-        title: 'OTP Verification Required',
-        content_text: 'High-risk actions require OTP verification'
-      },
-      {
-        code: 'FREEZE_LIMIT',
-        title: 'Card Freeze Limits',
-        content_text: 'Agents can freeze cards up to KYC level 2. Level 3 requires lead approval.'
+    data: DEFAULT_POLICIES.map(policy => ({
+      code: policy.code,
+      title: policy.title,
+      content_text: policyText[policy.code],
+      decision_table: policy.table
+    }))
+  });
+
+  // 8. Create initial risk ruleset
+  console.log('Creating risk ruleset v1...');
+  await prisma.riskRuleset.create({
+    data: {
+      version: 1,
+      status: 'active',
+      description: 'Initial thresholds',
+      activated_at: new Date(),
+      rules: {
+        create: DEFAULT_RULES.map(rule => ({
+          code: rule.code,
+          description: rule.description,
+          condition: rule.condition,
+          weight: rule.weight,
+          enabled: rule.enabled
+        }))
       }
-    ]
+    }
   });
 
+  // 9. Analysts and their keys. web_analyst's key is API_KEY when set, so the
+  // web client can be built against it; every other key is generated and
+  // printed once below.
+  console.log('Creating analysts...');
+  const analysts = [
+    { id: 'web_analyst', name: 'Web Analyst', role: 'analyst' },
+    { id: 'analyst_2', name: 'Second Analyst', role: 'analyst' },
+    { id: 'supervisor_1', name: 'Supervisor', role: 'supervisor' },
+    { id: 'admin', name: 'Admin', role: 'admin' }
+  ];
+  await prisma.analyst.createMany({ data: analysts });
+
+  const seededKeys: { owner: string; scopes: string[]; apiKey: string }[] = [];
+  for (const analyst of analysts) {
+    const { apiKey } = await createApiKey({
+      name: `${analyst.id} default`,
+      scopes: ROLE_DEFAULT_SCOPES[analyst.role],
+      analystId: analyst.id,
+      createdBy: 'seed',
+      apiKey: analyst.id === 'web_analyst' ? process.env.API_KEY || undefined : undefined
+    });
+    seededKeys.push({ owner: `${analyst.id} (${analyst.role})`, scopes: ROLE_DEFAULT_SCOPES[analyst.role], apiKey });
+  }
+
+  // An ingest partner: can post transactions and read insights, nothing else
+  const { apiKey: partnerKey } = await createApiKey({
+    name: 'ingest partner',
+    scopes: INTEGRATION_SCOPES,
+    createdBy: 'seed'
+  });
+  seededKeys.push({ owner: 'ingest partner (integration)', scopes: INTEGRATION_SCOPES, apiKey: partnerKey });
+
   console.log('✅ Seed complete!');
   console.log(`
     📊 Created:
     - ${customers.length} customers
     - ${cards.length} cards
     - ${customers.length} accounts
+    - ${deviceCount} devices
     - 200,000 transactions
     - 20 alerts
-    - 3 KB docs
-    - 2 policies
+    - 7 KB docs
+    - ${DEFAULT_POLICIES.length} policies
+    - 1 risk ruleset (${DEFAULT_RULES.length} rules)
+    - ${analysts.length} analysts, ${seededKeys.length} API keys
+
+    🔑 API keys (shown once):
+${seededKeys.map(k => `    - ${k.owner} [${k.scopes.join(', ')}]: ${k.apiKey}`).join('\n')}
   `);
 }
 
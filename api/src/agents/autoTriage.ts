@@ -0,0 +1,88 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { enqueueRun } from './runManager.js';
+import { loadDecisionPolicies, findAutoClosePolicy } from '../lib/policies.js';
+import { appendCaseEvent } from '../lib/auditLog.js';
+import type { TriageResult } from '../types/agents.js';
+import { logger } from '../lib/logger.js';
+
+const prisma = new PrismaClient();
+
+// Alert risk levels that are triaged as soon as the alert is created,
+// e.g. AUTO_TRIAGE_RISKS=high,medium. Empty disables auto-triage.
+const AUTO_TRIAGE_RISKS = new Set(
+  (process.env.AUTO_TRIAGE_RISKS || '')
+    .split(',')
+    .map(r => r.trim())
+    .filter(Boolean)
+);
+
+export function shouldAutoTriage(risk: string): boolean {
+  return AUTO_TRIAGE_RISKS.has(risk);
+}
+
+// Single entry point for new alerts, so every source gets auto-triage
+export async function createAlert(data: Prisma.AlertUncheckedCreateInput) {
+  const alert = await prisma.alert.create({ data });
+
+  let runId: string | null = null;
+  if (shouldAutoTriage(alert.risk)) {
+    try {
+      runId = await enqueueRun(alert.id, 'auto', 'system');
+    } catch (error) {
+      // The alert still lands in the queue for manual triage
+      logger.error({ err: error }, `Auto-triage enqueue failed for alert ${alert.id}`);
+    }
+  }
+
+  return { alert, runId };
+}
+
+// Close an auto-triaged alert when an AUTO_CLOSE policy covers the outcome
+export async function applyAutoClose(alertId: string, result: TriageResult): Promise<boolean> {
+  if (result.score === null || result.fallbackUsed) return false;
+
+  const alert = await prisma.alert.findUnique({ where: { id: alertId } });
+  if (!alert || alert.status !== 'open') return false;
+
+  const policy = findAutoClosePolicy(await loadDecisionPolicies(), {
+    score: result.score,
+    alertRisk: alert.risk,
+    recommendation: result.recommendation
+  });
+
+  if (!policy) return false;
+
+  // Only close it if nobody acted on it since it was read
+  const closed = await prisma.alert.updateMany({
+    where: { id: alertId, status: 'open' },
+    data: { status: 'closed' }
+  });
+  if (closed.count !== 1) return false;
+
+  // Create case for audit trail
+  const caseRecord = await prisma.case.create({
+    data: {
+      customer_id: alert.customer_id,
+      txn_id: alert.suspect_txn_id,
+      type: 'auto_close',
+      status: 'closed',
+      reason_code: policy.code
+    }
+  });
+
+  await appendCaseEvent({
+    case_id: caseRecord.id,
+    actor: 'system',
+    action: 'alert_auto_closed',
+    payload_json: {
+      alertId,
+      runId: result.runId,
+      originalRisk: alert.risk,
+      score: result.score,
+      recommendation: result.recommendation,
+      policyCode: policy.code
+    }
+  });
+
+  return true;
+}
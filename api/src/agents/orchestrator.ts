@@ -1,20 +1,35 @@
 import { EventEmitter } from 'events';
 import { PrismaClient } from '@prisma/client';
-import type { AgentStep, TriageResult } from '../types/agents.js';
+import type { AgentStep, StepPlugin, TriageResult } from '../types/agents.js';
 import { agentLatency, toolCallsTotal } from '../lib/metrics.js';
+import { StepRegistry } from './registry.js';
+import { defaultRegistry } from './steps/index.js';
+import { logger } from '../lib/logger.js';
+import { redactToVault } from '../lib/redactor.js';
 
 const prisma = new PrismaClient();
 
+const DEFAULT_STEP_TIMEOUT_MS = 5000;
+
 export class TriageOrchestrator extends EventEmitter {
   private runId: string;
   private alertId: string;
+  private registry: StepRegistry;
+  private trigger: 'manual' | 'auto';
+  private actor: string | null;
   private steps: AgentStep[] = [];
   private startTime: number;
 
-  constructor(alertId: string) {
+  constructor(
+    alertId: string,
+    options: { registry?: StepRegistry; runId?: string; trigger?: 'manual' | 'auto'; actor?: string } = {}
+  ) {
     super();
     this.alertId = alertId;
-    this.runId = `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.registry = options.registry ?? defaultRegistry;
+    this.trigger = options.trigger ?? 'manual';
+    this.actor = options.actor ?? null;
+    this.runId = options.runId ?? `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     this.startTime = Date.now();
   }
 
@@ -26,159 +41,12 @@ export class TriageOrchestrator extends EventEmitter {
     this.emit('start', { runId: this.runId, alertId: this.alertId });
 
     try {
-      const profile = await this.executeStep('getProfile', async () => {
-        const alert = await prisma.alert.findUnique({
-          where: { id: this.alertId },
-          include: {
-            customer: {
-              select: {
-                id: true,
-                name: true,
-                kyc_level: true
-              }
-            },
-            transaction: {
-              select: {
-                id: true,
-                amount_cents: true,
-                merchant: true,
-                country: true
-              }
-            }
-          }
-        });
-
-        if (!alert) throw new Error('Alert not found');
-
-        // Count cards and get first account balance
-        const cardCount = await prisma.card.count({
-          where: { customer_id: alert.customer.id }
-        });
-
-        const account = await prisma.account.findFirst({
-          where: { customer_id: alert.customer.id },
-          select: { balance_cents: true }
-        });
-
-        return {
-          customerId: alert.customer.id,
-          name: alert.customer.name,
-          kycLevel: alert.customer.kyc_level,
-          cardCount,
-          accountBalance: account?.balance_cents || 0,
-          suspectTransaction: alert.transaction
-        };
-      });
-
-      // Simulate delay for realistic UX
-      await this.sleep(300);
-
-      // Analyze recent transactions
-      const recentTx = await this.executeStep('recentTransactions', async () => {
-        const transactions = await prisma.transaction.findMany({
-          where: { customer_id: profile.result.customerId },
-          orderBy: { ts: 'desc' },
-          take: 20,
-          select: {
-            amount_cents: true,
-            merchant: true,
-            ts: true
-          }
-        });
-
-        const uniqueMerchants = new Set(transactions.map(t => t.merchant)).size;
-        const totalSpend = transactions.reduce((sum, t) => sum + t.amount_cents, 0);
-
-        return {
-          count: transactions.length,
-          totalSpend,
-          merchants: uniqueMerchants,
-          avgAmount: transactions.length > 0 ? totalSpend / transactions.length : 0
-        };
-      });
-
-      await this.sleep(400);
-
-      // Risk signals (with retry and fallback)
-      const riskSignals = await this.executeStepWithRetry('riskSignals', async () => {
-        // Simulate occasional failures (10% chance)
-        if (Math.random() < 0.1) {
-          throw new Error('Risk service timeout');
-        }
-
-        const signals = [];
-        const txCount = recentTx.result.count;
-        const suspectAmount = profile.result.suspectTransaction?.amount_cents || 0;
-        
-        // Velocity check
-        if (txCount > 15) signals.push('high_velocity');
-        
-        // Large amount check
-        if (suspectAmount > 50000) signals.push('large_amount');
-        
-        // Foreign transaction check
-        if (profile.result.suspectTransaction?.country !== 'IN') {
-          signals.push('foreign_transaction');
-        }
+      const outputs = await this.runGraph(this.registry.resolve());
 
-        // Unusual merchant check
-        if (recentTx.result.merchants < 3 && txCount > 10) {
-          signals.push('merchant_concentration');
-        }
-
-        const score = Math.min(signals.length * 0.25, 1.0);
-
-        return { signals, score };
-      }, 2);
+      const decision = outputs.decision;
+      if (!decision) throw new Error('Pipeline produced no decision');
 
-      await this.sleep(500);
-
-      // Step 4: KB lookup
-      const kbResult = await this.executeStep('kbLookup', async () => {
-        const docs = await prisma.kBDoc.findMany({
-          take: 2,
-          select: { title: true, anchor: true }
-        });
-
-        return {
-          documents: docs,
-          citationsFound: docs.length
-        };
-      });
-
-      await this.sleep(300);
-
-      // Step 5: Make decision
-      const decision = await this.executeStep('decide', async () => {
-        const riskScore = riskSignals.result.score;
-        const signals = riskSignals.result.signals;
-
-        let risk: 'low' | 'medium' | 'high';
-        let recommendation: string;
-        let confidence: number;
-
-        if (riskScore >= 0.6) {
-          risk = 'high';
-          recommendation = 'freeze_card';
-          confidence = 0.92;
-        } else if (riskScore >= 0.3) {
-          risk = 'medium';
-          recommendation = 'contact_customer';
-          confidence = 0.78;
-        } else {
-          risk = 'low';
-          recommendation = 'mark_false_positive';
-          confidence = 0.65;
-        }
-
-        return {
-          risk,
-          recommendation,
-          confidence,
-          reasons: signals.length > 0 ? signals : ['no_clear_risk'],
-          requiresOtp: risk === 'high' && profile.result.kycLevel < 3
-        };
-      });
+      const rulesetVersion = outputs.riskSignals?.rulesetVersion ?? null;
 
       // Calculate total duration
       const totalDuration = Date.now() - this.startTime;
@@ -188,14 +56,23 @@ export class TriageOrchestrator extends EventEmitter {
         data: {
           alert_id: this.alertId,
           ended_at: new Date(),
-          risk: decision.result.risk,
-          reasons: decision.result.reasons,
+          risk: decision.risk,
+          score: outputs.riskSignals?.score ?? null,
+          recommendation: decision.recommendation,
+          reasons: await redactToVault(decision.reasons, 'trace'),
+          trigger: this.trigger,
+          actor: this.actor,
           fallback_used: this.steps.some(s => !s.success),
-          latency_ms: totalDuration
+          latency_ms: totalDuration,
+          ruleset_version: rulesetVersion
         }
       });
 
       // Save traces (BATCH insert)
+      // Step results carry customer and card details
+      const details = await Promise.all(
+        this.steps.map(step => redactToVault(step.result || { error: step.error }, 'trace'))
+      );
       await prisma.agentTrace.createMany({
         data: this.steps.map((step, idx) => ({
           run_id: triageRun.id,
@@ -203,43 +80,113 @@ export class TriageOrchestrator extends EventEmitter {
           step: step.name,
           ok: step.success,
           duration_ms: step.duration_ms,
-          detail_json: step.result || { error: step.error }
+          detail_json: details[idx]
         }))
       });
 
       const result: TriageResult = {
         runId: this.runId,
         alertId: this.alertId,
-        risk: decision.result.risk,
-        reasons: decision.result.reasons,
-        recommendation: decision.result.recommendation,
-        confidence: decision.result.confidence,
+        risk: decision.risk,
+        score: outputs.riskSignals?.score ?? null,
+        reasons: decision.reasons,
+        recommendation: decision.recommendation,
+        confidence: decision.confidence,
+        requiresOtp: decision.requiresOtp,
+        requiredApprovals: decision.requiredApprovals,
+        policyCode: decision.policyCode,
+        policies: decision.policies,
+        citations: decision.citations ?? outputs.kb?.documents ?? [],
         steps: this.steps,
         fallbackUsed: this.steps.some(s => !s.success),
-        totalDuration
+        totalDuration,
+        rulesetVersion
       };
 
       this.emit('complete', result);
       return result;
 
     } catch (error) {
-      console.error('Orchestrator error:', error);
+      logger.error({ err: error }, 'Orchestrator error');
       this.emit('error', { error: error instanceof Error ? error.message : 'Unknown error' });
       throw error;
     }
   }
 
-  private async executeStep(name: string, fn: () => Promise<any>): Promise<AgentStep> {
+  // Start every step as soon as the steps producing its inputs have finished,
+  // so independent branches of the graph run concurrently.
+  private async runGraph(plugins: StepPlugin[]): Promise<Record<string, any>> {
+    const outputs: Record<string, any> = {};
+    const pending = new Map<string, Promise<void>>();
+
+    for (const plugin of plugins) {
+      const deps = plugin.inputs.map(input => pending.get(input)!);
+
+      pending.set(plugin.output, Promise.all(deps).then(async () => {
+        const inputs = Object.fromEntries(plugin.inputs.map(input => [input, outputs[input]]));
+        const step = await this.executePlugin(plugin, inputs);
+        outputs[plugin.output] = step.result;
+      }));
+    }
+
+    await Promise.all(pending.values());
+    return outputs;
+  }
+
+  private async executePlugin(plugin: StepPlugin, inputs: Record<string, any>): Promise<AgentStep> {
+    const ctx = { runId: this.runId, alertId: this.alertId };
+    const timeoutMs = plugin.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+    const run = () => plugin.run(inputs, ctx);
+
+    if (!plugin.retry && !plugin.fallback) {
+      return this.executeStep(plugin.name, run, timeoutMs);
+    }
+
+    const maxRetries = plugin.retry?.maxRetries ?? 0;
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        if (attempt > 0 && plugin.retry) {
+          const { backoffMs, maxBackoffMs } = plugin.retry;
+          await this.sleep(Math.min(backoffMs * Math.pow(2, attempt - 1), maxBackoffMs));
+          this.emit('retry', { step: plugin.name, attempt });
+        }
+
+        return await this.executeStep(plugin.name, run, timeoutMs);
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error('Unknown error');
+        logger.warn(`Step ${plugin.name} failed, attempt ${attempt + 1}/${maxRetries + 1}`);
+      }
+    }
+
+    if (!plugin.fallback) throw lastError;
+
+    // All retries failed - use fallback
+    const fallback = plugin.fallback;
+    this.emit('fallback', { step: plugin.name, error: lastError?.message });
+
+    return this.executeStep(
+      `${plugin.name}_fallback`,
+      async () => fallback(lastError!),
+      timeoutMs
+    );
+  }
+
+  private async executeStep(name: string, fn: () => Promise<any>, timeoutMs: number): Promise<AgentStep> {
     const start = Date.now();
-    
+    let timer: NodeJS.Timeout | undefined;
+
     try {
       const result = await Promise.race([
         fn(),
-        this.timeout(5000, `${name} timeout`)
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`${name} timeout`)), timeoutMs);
+        })
       ]);
-      
+
       const duration = Date.now() - start;
-      
+
       const step: AgentStep = {
         name,
         duration_ms: duration,
@@ -249,7 +196,7 @@ export class TriageOrchestrator extends EventEmitter {
 
       this.steps.push(step);
       this.emit('step', step);
-      
+
       agentLatency.labels(name, 'true').observe(duration);
       toolCallsTotal.labels(name, 'true').inc();
 
@@ -265,57 +212,17 @@ export class TriageOrchestrator extends EventEmitter {
 
       this.steps.push(step);
       this.emit('step', step);
-      
+
       agentLatency.labels(name, 'false').observe(duration);
       toolCallsTotal.labels(name, 'false').inc();
 
       throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  private async executeStepWithRetry(
-    name: string,
-    fn: () => Promise<any>,
-    maxRetries = 2
-  ): Promise<AgentStep> {
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        if (attempt > 0) {
-          const delay = Math.min(150 * Math.pow(2, attempt - 1), 400);
-          await this.sleep(delay);
-          this.emit('retry', { step: name, attempt });
-        }
-
-        return await this.executeStep(name, fn);
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error('Unknown error');
-        console.log(`Step ${name} failed, attempt ${attempt + 1}/${maxRetries + 1}`);
-      }
-    }
-
-    // All retries failed - use fallback
-    this.emit('fallback', { step: name, error: lastError?.message });
-    
-    const fallbackResult = await this.executeStep(`${name}_fallback`, async () => {
-      return {
-        fallback: true,
-        score: 0.5,
-        signals: ['service_unavailable']
-      };
-    });
-
-    return fallbackResult;
-  }
-
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
-
-  private timeout(ms: number, message: string): Promise<never> {
-    return new Promise((_, reject) => 
-      setTimeout(() => reject(new Error(message)), ms)
-    );
-  }
-}
\ No newline at end of file
+}
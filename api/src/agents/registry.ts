@@ -0,0 +1,63 @@
+import type { StepPlugin } from '../types/agents.js';
+
+export class StepRegistry {
+  private plugins = new Map<string, StepPlugin>();
+
+  register(plugin: StepPlugin): this {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Step ${plugin.name} is already registered`);
+    }
+
+    const producer = this.list().find(p => p.output === plugin.output);
+    if (producer) {
+      throw new Error(`Output ${plugin.output} is already produced by ${producer.name}`);
+    }
+
+    this.plugins.set(plugin.name, plugin);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.plugins.delete(name);
+  }
+
+  list(): StepPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  // Topologically sort steps so every step comes after the producers of its inputs.
+  // Throws on unknown inputs or dependency cycles.
+  resolve(): StepPlugin[] {
+    const plugins = this.list();
+    const producers = new Map(plugins.map(p => [p.output, p]));
+
+    for (const plugin of plugins) {
+      for (const input of plugin.inputs) {
+        if (!producers.has(input)) {
+          throw new Error(`Step ${plugin.name} requires ${input}, which no registered step produces`);
+        }
+      }
+    }
+
+    const ordered: StepPlugin[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (plugin: StepPlugin, path: string[]) => {
+      const current = state.get(plugin.name);
+      if (current === 'done') return;
+      if (current === 'visiting') {
+        throw new Error(`Step dependency cycle: ${[...path, plugin.name].join(' → ')}`);
+      }
+
+      state.set(plugin.name, 'visiting');
+      for (const input of plugin.inputs) {
+        visit(producers.get(input)!, [...path, plugin.name]);
+      }
+      state.set(plugin.name, 'done');
+      ordered.push(plugin);
+    };
+
+    plugins.forEach(p => visit(p, []));
+    return ordered;
+  }
+}
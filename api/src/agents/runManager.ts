@@ -0,0 +1,83 @@
+import os from 'os';
+import { PrismaClient } from '@prisma/client';
+import type { Job } from 'bullmq';
+import { TriageOrchestrator } from './orchestrator.js';
+import type { StreamEvent, TriageResult } from '../types/agents.js';
+import { createRun, markRunning, finishRun, appendEvent } from '../lib/runStore.js';
+import { triageQueue, RISK_PRIORITY, type TriageJobData } from '../lib/queue.js';
+import { logger } from '../lib/logger.js';
+
+const prisma = new PrismaClient();
+
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+export class AlertNotFoundError extends Error {
+  constructor(alertId: string) {
+    super(`Alert ${alertId} not found`);
+    this.name = 'AlertNotFoundError';
+  }
+}
+
+const FORWARDED_EVENTS: StreamEvent['type'][] = ['start', 'step', 'retry', 'fallback', 'complete'];
+
+function publish(runId: string, type: StreamEvent['type'], data: any): void {
+  appendEvent(runId, { type, data, timestamp: new Date().toISOString() })
+    .catch(err => logger.error({ err }, `Failed to record ${type} event for ${runId}`));
+}
+
+// Queue a triage run, prioritised by the alert's risk. The run is recorded
+// before the job is added, so its stream is available immediately.
+export async function enqueueRun(
+  alertId: string,
+  trigger: TriageJobData['trigger'],
+  actor: string
+): Promise<string> {
+  const alert = await prisma.alert.findUnique({
+    where: { id: alertId },
+    select: { risk: true }
+  });
+
+  if (!alert) throw new AlertNotFoundError(alertId);
+
+  const runId = `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  await createRun(runId, alertId);
+  await triageQueue.add('triage', { runId, alertId, trigger, actor }, {
+    jobId: runId,
+    priority: RISK_PRIORITY[alert.risk] ?? RISK_PRIORITY.low
+  });
+
+  return runId;
+}
+
+// BullMQ processor. A job picked up again after a crashed worker or a failed
+// attempt re-runs the pipeline under the same runId; listeners see 'resumed'.
+export async function processRun(job: Job<TriageJobData>): Promise<TriageResult> {
+  const { runId, alertId, trigger, actor } = job.data;
+  const attempt = await markRunning(runId, INSTANCE_ID);
+  const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  if (attempt > 1) {
+    publish(runId, 'resumed', { runId, attempt, instance: INSTANCE_ID });
+  }
+
+  const orchestrator = new TriageOrchestrator(alertId, { runId, trigger, actor });
+
+  for (const type of FORWARDED_EVENTS) {
+    orchestrator.on(type, (data) => publish(runId, type, data));
+  }
+
+  // Only the last attempt's failure ends the stream; earlier ones will be retried
+  orchestrator.on('error', (data) => {
+    publish(runId, finalAttempt ? 'error' : 'retry', { ...data, attempt });
+  });
+
+  try {
+    const result = await orchestrator.execute();
+    await finishRun(runId, 'complete');
+    return result;
+  } catch (error) {
+    if (finalAttempt) await finishRun(runId, 'error');
+    throw error;
+  }
+}
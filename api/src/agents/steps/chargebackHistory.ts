@@ -0,0 +1,14 @@
+import type { StepPlugin } from '../../types/agents.js';
+import { summarizeChargebacks } from '../../lib/chargebacks.js';
+
+export const chargebackHistoryStep: StepPlugin = {
+  name: 'chargebackHistory',
+  inputs: ['profile'],
+  output: 'chargebacks',
+  // Missing history should not block triage; rules see null features
+  fallback: () => ({ total: null, recent: null, totalAmountCents: null, reasons: [], lastChargebackAt: null }),
+  async run({ profile }) {
+    const at = profile.suspectTransaction ? new Date(profile.suspectTransaction.ts) : new Date();
+    return summarizeChargebacks(profile.customerId, at);
+  }
+};
@@ -0,0 +1,40 @@
+import type { StepPlugin } from '../../types/agents.js';
+import { loadDecisionPolicies, evaluatePolicies } from '../../lib/policies.js';
+import { searchKbForTopics, mergeCitations, type KbCitation } from '../../lib/kbSearch.js';
+import { logger } from '../../lib/logger.js';
+
+export const decideStep: StepPlugin = {
+  name: 'decide',
+  inputs: ['profile', 'riskSignals', 'kb'],
+  output: 'decision',
+  async run({ profile, riskSignals, kb }) {
+    const signals = riskSignals.signals;
+    const policies = await loadDecisionPolicies();
+
+    const decision = evaluatePolicies(policies, {
+      score: riskSignals.score,
+      kycLevel: profile.kycLevel
+    });
+
+    return {
+      ...decision,
+      reasons: signals.length > 0 ? signals : ['no_clear_risk'],
+      citations: await citationsFor(signals, kb)
+    };
+  }
+};
+
+// Merge the profile-based kbLookup citations with citations for the risk
+// signals it could not know about. Citations stay advisory: a failed signal
+// search keeps whatever kbLookup found.
+async function citationsFor(signals: string[], kb: { topics: string[]; documents: KbCitation[] }): Promise<KbCitation[]> {
+  const missing = signals.filter(signal => !kb.topics.includes(signal));
+  if (missing.length === 0) return kb.documents;
+
+  try {
+    return mergeCitations([kb.documents, await searchKbForTopics(missing)]);
+  } catch (error) {
+    logger.warn({ error }, 'Signal KB lookup failed');
+    return kb.documents;
+  }
+}
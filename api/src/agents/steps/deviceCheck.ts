@@ -0,0 +1,18 @@
+import type { StepPlugin } from '../../types/agents.js';
+import { assessDevice } from '../../lib/devices.js';
+
+export const deviceCheckStep: StepPlugin = {
+  name: 'deviceCheck',
+  inputs: ['profile'],
+  output: 'device',
+  // Missing device data should not block triage; rules see null features
+  fallback: () => ({ deviceId: null, known: false, isNew: null, trusted: null, ageDays: null }),
+  async run({ profile }) {
+    const suspect = profile.suspectTransaction;
+    if (!suspect) {
+      return { deviceId: null, known: false, isNew: null, trusted: null, ageDays: null };
+    }
+
+    return assessDevice(profile.customerId, suspect.device_id, new Date(suspect.ts));
+  }
+};
@@ -0,0 +1,56 @@
+import { PrismaClient } from '@prisma/client';
+import type { StepPlugin } from '../../types/agents.js';
+
+const prisma = new PrismaClient();
+
+export const getProfileStep: StepPlugin = {
+  name: 'getProfile',
+  inputs: [],
+  output: 'profile',
+  async run(_inputs, ctx) {
+    const alert = await prisma.alert.findUnique({
+      where: { id: ctx.alertId },
+      include: {
+        customer: {
+          select: {
+            id: true,
+            name: true,
+            kyc_level: true
+          }
+        },
+        transaction: {
+          select: {
+            id: true,
+            amount_cents: true,
+            merchant: true,
+            country: true,
+            device_id: true,
+            ts: true
+          }
+        }
+      }
+    });
+
+    if (!alert) throw new Error('Alert not found');
+
+    // Count cards and get first account balance
+    const cardCount = await prisma.card.count({
+      where: { customer_id: alert.customer.id }
+    });
+
+    const account = await prisma.account.findFirst({
+      where: { customer_id: alert.customer.id },
+      select: { balance_cents: true }
+    });
+
+    return {
+      customerId: alert.customer.id,
+      customerName: alert.customer.name,
+      kycLevel: alert.customer.kyc_level,
+      cardCount,
+      accountBalance: account?.balance_cents || 0,
+      alertReason: alert.reason,
+      suspectTransaction: alert.transaction
+    };
+  }
+};
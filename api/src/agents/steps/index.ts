@@ -0,0 +1,19 @@
+import { StepRegistry } from '../registry.js';
+import { getProfileStep } from './getProfile.js';
+import { recentTransactionsStep } from './recentTransactions.js';
+import { riskSignalsStep } from './riskSignals.js';
+import { kbLookupStep } from './kbLookup.js';
+import { decideStep } from './decide.js';
+import { deviceCheckStep } from './deviceCheck.js';
+import { chargebackHistoryStep } from './chargebackHistory.js';
+
+// Default pipeline. Register additional steps here; the orchestrator
+// derives execution order and parallelism from each step's inputs.
+export const defaultRegistry = new StepRegistry()
+  .register(getProfileStep)
+  .register(recentTransactionsStep)
+  .register(deviceCheckStep)
+  .register(chargebackHistoryStep)
+  .register(riskSignalsStep)
+  .register(kbLookupStep)
+  .register(decideStep);
@@ -0,0 +1,26 @@
+import type { StepPlugin } from '../../types/agents.js';
+import { searchKbForTopics } from '../../lib/kbSearch.js';
+
+export const kbLookupStep: StepPlugin = {
+  name: 'kbLookup',
+  // Profile only, so the lookup runs alongside the data-gathering steps;
+  // decide adds citations for the computed risk signals
+  inputs: ['profile'],
+  output: 'kb',
+  // Citations are advisory; a search failure should not block the decision
+  fallback: () => ({ topics: [], documents: [], citationsFound: 0 }),
+  async run({ profile }) {
+    const topics: string[] = [
+      profile.alertReason,
+      profile.suspectTransaction?.merchant
+    ].filter(Boolean);
+
+    const documents = await searchKbForTopics(topics);
+
+    return {
+      topics,
+      documents,
+      citationsFound: documents.length
+    };
+  }
+};
@@ -0,0 +1,32 @@
+import { PrismaClient } from '@prisma/client';
+import type { StepPlugin } from '../../types/agents.js';
+
+const prisma = new PrismaClient();
+
+export const recentTransactionsStep: StepPlugin = {
+  name: 'recentTransactions',
+  inputs: ['profile'],
+  output: 'recentTx',
+  async run({ profile }) {
+    const transactions = await prisma.transaction.findMany({
+      where: { customer_id: profile.customerId },
+      orderBy: { ts: 'desc' },
+      take: 20,
+      select: {
+        amount_cents: true,
+        merchant: true,
+        ts: true
+      }
+    });
+
+    const uniqueMerchants = new Set(transactions.map(t => t.merchant)).size;
+    const totalSpend = transactions.reduce((sum, t) => sum + t.amount_cents, 0);
+
+    return {
+      count: transactions.length,
+      totalSpend,
+      merchants: uniqueMerchants,
+      avgAmount: transactions.length > 0 ? totalSpend / transactions.length : 0
+    };
+  }
+};
@@ -0,0 +1,44 @@
+import type { StepPlugin } from '../../types/agents.js';
+import { loadActiveRuleset, evaluateRuleset, type RiskFeatures } from '../../lib/riskRules.js';
+
+export const riskSignalsStep: StepPlugin = {
+  name: 'riskSignals',
+  inputs: ['profile', 'recentTx', 'device', 'chargebacks'],
+  output: 'riskSignals',
+  retry: { maxRetries: 2, backoffMs: 150, maxBackoffMs: 400 },
+  fallback: () => ({
+    fallback: true,
+    score: 0.5,
+    signals: ['service_unavailable'],
+    rulesetVersion: null
+  }),
+  async run({ profile, recentTx, device, chargebacks }) {
+    // Simulate occasional failures (10% chance)
+    if (Math.random() < 0.1) {
+      throw new Error('Risk service timeout');
+    }
+
+    const ruleset = await loadActiveRuleset();
+    const suspect = profile.suspectTransaction;
+
+    const features: RiskFeatures = {
+      txCount: recentTx.count,
+      uniqueMerchants: recentTx.merchants,
+      totalSpend: recentTx.totalSpend,
+      avgAmount: recentTx.avgAmount,
+      suspectAmount: suspect?.amount_cents || 0,
+      suspectCountry: suspect?.country ?? null,
+      suspectMerchant: suspect?.merchant ?? null,
+      kycLevel: profile.kycLevel,
+      cardCount: profile.cardCount,
+      accountBalance: profile.accountBalance,
+      deviceNew: device.isNew,
+      deviceTrusted: device.trusted,
+      deviceAgeDays: device.ageDays,
+      chargebackCount: chargebacks.total,
+      recentChargebackCount: chargebacks.recent
+    };
+
+    return evaluateRuleset(ruleset, features);
+  }
+};
@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+import { verifyCaseChain, sealLegacyEvents, type ChainReport } from '../lib/auditLog.js';
+
+const prisma = new PrismaClient();
+
+// Verify the CaseEvent hash chain of one case or every case.
+//   npm run audit:verify                 all cases
+//   npm run audit:verify -- <caseId>     one case
+//   npm run audit:verify -- --seal       chain legacy (pre-hashing) events first
+async function main() {
+  const args = process.argv.slice(2);
+  const seal = args.includes('--seal');
+  const caseIds = args.filter(a => !a.startsWith('--'));
+
+  const ids = caseIds.length > 0
+    ? caseIds
+    : (await prisma.case.findMany({ select: { id: true }, orderBy: { created_at: 'asc' } })).map(c => c.id);
+
+  console.log(`🔐 Verifying case event chains for ${ids.length} case(s)...\n`);
+
+  if (seal) {
+    let sealed = 0;
+    for (const id of ids) sealed += await sealLegacyEvents(id);
+    console.log(`Sealed ${sealed} legacy event(s)\n`);
+  }
+
+  const broken: ChainReport[] = [];
+  let events = 0;
+
+  for (const id of ids) {
+    const report = await verifyCaseChain(id);
+    if (!report) {
+      console.log(`❌ ${id}: case not found`);
+      continue;
+    }
+
+    events += report.events;
+    if (!report.valid) broken.push(report);
+  }
+
+  for (const report of broken) {
+    console.log(`❌ ${report.caseId}`);
+    for (const b of report.breaks) {
+      console.log(`   seq ${b.seq}: ${b.reason}${b.eventId ? ` (event ${b.eventId})` : ''}`);
+    }
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`Cases: ${ids.length}  Events: ${events}  Broken: ${broken.length}`);
+  console.log('='.repeat(60));
+
+  return broken.length === 0;
+}
+
+main()
+  .then(async (valid) => {
+    await prisma.$disconnect();
+    process.exit(valid ? 0 : 1);
+  })
+  .catch(async (error) => {
+    console.error('Audit verification failed:', error);
+    await prisma.$disconnect();
+    process.exit(2);
+  });
@@ -1,6 +1,28 @@
 import { PrismaClient } from '@prisma/client';
 import { TriageOrchestrator } from '../agents/orchestrator.js';
 import { redactPII } from '../lib/redactor.js';
+import { createLogger } from '../lib/logger.js';
+import { formatStreamEvent } from '../lib/runStore.js';
+import { appendCaseEvent, hashCaseEvent, purgeCases, verifyCaseChain } from '../lib/auditLog.js';
+import { freezeCard } from '../lib/actionHandlers.js';
+import { requestApproval, requiresApproval } from '../lib/approvals.js';
+import { issueOtp, verifyOtp } from '../lib/otp.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { redis } from '../lib/redis.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  fingerprintRequest,
+  releaseIdempotencyKey
+} from '../lib/idempotency.js';
+import { idempotency } from '../middleware/security.js';
+import { RISK_FEATURES, evaluateCondition, evaluateRuleset, loadActiveRuleset, type RiskFeatures } from '../lib/riskRules.js';
+import { API_KEY_SCOPES } from '../lib/apiKeys.js';
+import type { Principal, Role } from '../lib/auth.js';
+import rulesRouter from '../routes/rules.js';
+import casesRouter from '../routes/cases.js';
+import approvalsRouter from '../routes/approvals.js';
+import type { Router } from 'express';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -11,6 +33,40 @@ const __dirname = path.dirname(__filename);
 
 const prisma = new PrismaClient();
 
+// An authenticated analyst holding every key scope, so only the role limits it
+const evalPrincipal = (id: string, role: Role): Principal => ({
+  id,
+  name: id,
+  role,
+  via: 'api_key',
+  scopes: [...API_KEY_SCOPES],
+  keyId: `eval-key-${id}`
+});
+
+// Drive a router in-process as the app would once the request is
+// authenticated, resolving with what the route answered
+function callRoute(
+  router: Router,
+  request: { method: string; url: string; analyst: Principal; body?: unknown; query?: Record<string, string> }
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    let status = 200;
+    const res: any = {
+      set: () => res,
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(body: unknown) {
+        resolve({ status, body });
+        return res;
+      }
+    };
+    const req: any = { headers: {}, body: {}, query: {}, ...request };
+    router(req, res, (error?: unknown) => reject(error ?? new Error(`No route for ${request.method} ${request.url}`)));
+  });
+}
+
 interface EvalResult {
   name: string;
   passed: boolean;
@@ -63,9 +119,24 @@ class EvalRunner {
         case 'PII Redaction':
           await this.testPIIRedaction(evalCase);
           break;
+        case 'PII Leak Boundaries':
+          await this.testPIILeakage(evalCase);
+          break;
         case 'Risk Tool Timeout Fallback':
           await this.testFallback(evalCase);
           break;
+        case 'Risk Rule Engine':
+          await this.testRiskRuleEngine(evalCase);
+          break;
+        case 'Case Lifecycle':
+          await this.testCaseLifecycle(evalCase);
+          break;
+        case 'Four-Eyes Approval':
+          await this.testFourEyesApproval(evalCase);
+          break;
+        case 'Idempotency Replay':
+          await this.testIdempotencyReplay(evalCase);
+          break;
         default:
           throw new Error(`Unknown eval: ${evalCase.name}`);
       }
@@ -113,9 +184,18 @@ class EvalRunner {
         // await prisma.someOtherChild.deleteMany({ where: { alert_id: alertId } }).catch(()=>{});
         }
 
+        // cases and their append-only events go through the audited purge
+        const cases = await prisma.case.findMany({
+            where: { OR: [{ customer_id: customerId }, { transaction: { customer_id: customerId } }] },
+            select: { id: true }
+        });
+        await purgeCases(cases.map(c => c.id), 'eval', 'eval cleanup');
+
         // delete transactions/cards/etc for the customer before deleting customer
+        await prisma.chargeback.deleteMany({ where: { customer_id: customerId } });
         await prisma.transaction.deleteMany({ where: { customer_id: customerId } });
         await prisma.card.deleteMany({ where: { customer_id: customerId } });
+        await prisma.device.deleteMany({ where: { customer_id: customerId } });
         await prisma.alert.deleteMany({ where: { customer_id: customerId } });
         await prisma.customer.deleteMany({ where: { id: customerId } });
     } catch (e) {
@@ -126,12 +206,14 @@ class EvalRunner {
 
   async testFreezeWithOTP(evalCase: any) {
     const unique = crypto.randomUUID();
+    const expected = evalCase.expected;
+    const kycLevel = evalCase.scenario.customer.kyc_level;
     // Create test customer with high KYC level
     const customer = await prisma.customer.create({
       data: {
         name: 'Test Customer OTP',
-        email: `test-otp-${unique}.com`,
-        kyc_level: 2
+        email: `test-otp-${unique}@example.com`,
+        kyc_level: kycLevel
       }
     });
 
@@ -202,6 +284,36 @@ class EvalRunner {
       throw new Error(`Expected high risk, got ${result.risk}`);
     }
 
+    // Without a code the freeze stops before anything is written
+    const withoutOtp = await freezeCard({ cardId: card.id, actor: 'eval' });
+    if (expected.requires_otp && withoutOtp.body.status !== 'PENDING_OTP') {
+      throw new Error(`Expected PENDING_OTP without a code, got ${withoutOtp.body.status}`);
+    }
+
+    if (expected.otp_issued) {
+      const issued = await issueOtp({
+        cardId: card.id,
+        action: 'freeze_card',
+        cardLast4: card.last4,
+        recipient: customer.email
+      });
+      if (!issued.challengeId.startsWith('otp_') || new Date(issued.expiresAt) <= new Date()) {
+        throw new Error('OTP challenge was not issued');
+      }
+
+      // A wrong code is counted against the outstanding challenge, not
+      // reported as missing
+      const wrong = await verifyOtp(card.id, 'freeze_card', 'wrong!');
+      if (wrong.status !== 'invalid') {
+        throw new Error(`Expected the issued challenge to reject a wrong code, got ${wrong.status}`);
+      }
+    }
+
+    const needsApproval = (result.requiredApprovals ?? 0) > 0 && await requiresApproval('freeze_card', kycLevel);
+    if (needsApproval !== !!expected.requires_approval) {
+      throw new Error(`Expected requires_approval=${expected.requires_approval} for KYC ${kycLevel}, got ${needsApproval}`);
+    }
+
     // Cleanup
     await this.safeCleanup(customer.id, alert.id);
   }
@@ -250,15 +362,55 @@ class EvalRunner {
   }
 
   async testRateLimit(evalCase: any) {
-    // Test rate limit logic
+    const { policy, requests, burst, refill_per_second: refill } = evalCase.scenario;
     const expected = evalCase.expected;
-    
-    if (!expected.status_code || expected.status_code !== 429) {
-      throw new Error('Rate limit test requires 429 status code');
+    // A key of its own, so the burst starts from a full bucket
+    const keyId = `eval-${crypto.randomUUID()}`;
+    const middleware = rateLimit(policy);
+
+    // Drive the middleware as Express would, recording what it answers
+    const responses: Array<{ status: number; headers: Record<string, string> }> = [];
+    for (let i = 0; i < requests; i++) {
+      const response = { status: 200, headers: {} as Record<string, string> };
+      const res: any = {
+        set(name: string | Record<string, string>, value?: string) {
+          Object.assign(response.headers, typeof name === 'string' ? { [name]: value } : name);
+          return res;
+        },
+        status(code: number) {
+          response.status = code;
+          return res;
+        },
+        json: () => res
+      };
+      await middleware({ method: 'GET', analyst: { keyId } } as any, res, () => {});
+      responses.push(response);
+    }
+    await redis.del(`ratelimit:${policy}:key:${keyId}`);
+
+    const allowed = responses.filter(r => r.status === 200).length;
+    const blocked = responses.find(r => r.status === expected.status_code);
+
+    // The burst always goes through; refill during the loop may add a few
+    if (allowed < burst || !blocked) {
+      throw new Error(`Expected ${burst} allowed then ${expected.status_code}, got ${allowed} of ${requests} allowed`);
+    }
+
+    if (expected.has_retry_after) {
+      const retryAfter = parseInt(blocked.headers['Retry-After']);
+      // One token at `refill` per second, rounded up to whole seconds
+      if (retryAfter !== Math.max(Math.ceil(1 / refill), 1)) {
+        throw new Error(`Unexpected Retry-After: ${blocked.headers['Retry-After']}`);
+      }
     }
 
-    // This would be tested via HTTP calls in integration tests
-    console.log('  ⚠️  Rate limit test requires manual HTTP testing');
+    if (expected.has_rate_limit_headers) {
+      if (blocked.headers['X-RateLimit-Limit'] !== String(burst) || blocked.headers['X-RateLimit-Remaining'] !== '0') {
+        throw new Error(`Unexpected rate limit headers: ${JSON.stringify(blocked.headers)}`);
+      }
+    }
+
+    console.log(`  ${allowed}/${requests} allowed, then ${expected.status_code} with Retry-After ${blocked.headers['Retry-After']}s`);
   }
 
   async testPIIRedaction(evalCase: any) {
@@ -281,6 +433,98 @@ class EvalRunner {
     console.log(`  Redacted: ${redacted}`);
   }
 
+  async testPIILeakage(evalCase: any) {
+    const unique = crypto.randomUUID();
+    const { customer: seeded, identifiers } = evalCase.scenario;
+    // Customer emails are unique, so each run seeds its own
+    const email = seeded.email.replace('@', `+${unique.slice(0, 8)}@`);
+    const secrets: string[] = [seeded.name, email, seeded.phone, ...Object.values(identifiers) as string[]];
+
+    const leaks: string[] = [];
+    const checked: string[] = [];
+    const check = (boundary: string, output: string) => {
+      checked.push(boundary);
+      for (const value of secrets) {
+        if (output.includes(value)) leaks.push(`${boundary}: ${value}`);
+      }
+    };
+
+    // Names are only recognised by field; everything else must be caught in free text too
+    const sentence = `Contact ${email} or ${seeded.phone}, card ${identifiers.pan}, ` +
+      `UPI ${identifiers.upi}, PAN card ${identifiers.pan_card}, Aadhaar ${identifiers.aadhaar}`;
+    const fields = {
+      customerName: seeded.name,
+      email,
+      phone: seeded.phone,
+      cardNumber: identifiers.pan,
+      panCard: identifiers.pan_card,
+      upiId: identifiers.upi,
+      aadhaar: identifiers.aadhaar,
+      note: sentence
+    };
+
+    const customer = await prisma.customer.create({
+      data: { name: seeded.name, email, phone: seeded.phone }
+    });
+    const alert = await prisma.alert.create({
+      data: { customer_id: customer.id, risk: 'medium', status: 'open', reason: sentence }
+    });
+
+    try {
+      // SSE: every event the orchestrator emits, as it would be streamed
+      const frames: string[] = [];
+      const orchestrator = new TriageOrchestrator(alert.id);
+      for (const type of ['start', 'step', 'retry', 'fallback', 'complete', 'error']) {
+        orchestrator.on(type, data => frames.push(formatStreamEvent({ type, data })));
+      }
+      await orchestrator.execute();
+      frames.push(formatStreamEvent({ type: 'note', data: fields }));
+      check('sse', frames.join(''));
+
+      // Logs: fields, message text and an error's message and stack
+      const lines: string[] = [];
+      const log = createLogger({ write: (line: string) => { lines.push(line); } });
+      log.info(fields, `Reviewing ${sentence}`);
+      log.error({ err: new Error(`Charge failed: ${sentence}`), customer: { name: seeded.name } }, 'Action failed');
+      check('log', lines.join(''));
+
+      // Agent traces and the triage run written by the orchestrator
+      const runs = await prisma.triageRun.findMany({ where: { alert_id: alert.id } });
+      const traces = await prisma.agentTrace.findMany({ where: { run_id: { in: runs.map(r => r.id) } } });
+      if (traces.length === 0) throw new Error('Triage wrote no agent traces');
+      check('agent_trace', JSON.stringify(traces));
+      check('triage_run', JSON.stringify(runs));
+
+      // Case events are append-only, so the event is written and read back
+      // inside a transaction that is always rolled back
+      const rollback = new Error('eval rollback');
+      await prisma.$transaction(async tx => {
+        const caseRecord = await tx.case.create({ data: { type: 'inquiry', status: 'open' } });
+        const event = await appendCaseEvent(
+          { case_id: caseRecord.id, actor: 'eval', action: 'NOTE_ADDED', payload_json: fields },
+          tx
+        );
+        const stored = await tx.caseEvent.findUniqueOrThrow({ where: { id: event.id } });
+        check('case_event', JSON.stringify(stored));
+
+        if (hashCaseEvent(stored) !== stored.hash) {
+          throw new Error('Case event hash does not cover the redacted payload');
+        }
+        throw rollback;
+      }).catch(error => {
+        if (error !== rollback) throw error;
+      });
+    } finally {
+      await this.safeCleanup(customer.id, alert.id);
+    }
+
+    const missing = (evalCase.expected.boundaries as string[]).filter(b => !checked.includes(b));
+    if (missing.length > 0) throw new Error(`Boundaries not checked: ${missing.join(', ')}`);
+    if (leaks.length > 0) throw new Error(`PII leaked: ${leaks.join('; ')}`);
+
+    console.log(`  Checked ${checked.join(', ')}: no seeded PII found`);
+  }
+
   async testFallback(evalCase: any) {
     const unique = crypto.randomUUID();
     // Create test alert
@@ -310,6 +554,318 @@ class EvalRunner {
     await this.safeCleanup(customer.id, alert.id)
   }
 
+  async testRiskRuleEngine(evalCase: any) {
+    const { conditions, ruleset, features } = evalCase.scenario;
+    const expected = evalCase.expected;
+    // Features the case does not set are missing, as for a customer without history
+    const withFeatures = (set: Partial<RiskFeatures>) =>
+      ({ ...Object.fromEntries(RISK_FEATURES.map(f => [f, null])), ...set }) as RiskFeatures;
+
+    conditions.forEach((c: any, i: number) => {
+      const matched = evaluateCondition(c.condition, withFeatures(c.features));
+      if (matched !== c.matches) {
+        throw new Error(`Condition ${i} ${JSON.stringify(c.condition)} matched=${matched}, expected ${c.matches}`);
+      }
+    });
+
+    const admin = evalPrincipal('eval_admin', 'admin');
+    const previous = await prisma.riskRuleset.findFirst({ where: { status: 'active' }, orderBy: { version: 'desc' } });
+
+    const created = await callRoute(rulesRouter, { method: 'POST', url: '/', analyst: admin, body: ruleset });
+    if (created.status !== 201 || created.body.status !== expected.draft_status) {
+      throw new Error(`Expected a ${expected.draft_status} ruleset, got ${created.status} ${JSON.stringify(created.body)}`);
+    }
+    const version: number = created.body.version;
+
+    try {
+      if (previous && version <= previous.version) {
+        throw new Error(`Draft v${version} is not newer than active v${previous.version}`);
+      }
+      if ((await loadActiveRuleset()).version === version) {
+        throw new Error('A draft ruleset was applied before activation');
+      }
+
+      const activated = await callRoute(rulesRouter, { method: 'POST', url: `/${version}/activate`, analyst: admin });
+      if (activated.body.status !== 'ACTIVE') {
+        throw new Error(`Activation failed: ${activated.status} ${JSON.stringify(activated.body)}`);
+      }
+
+      const active = await loadActiveRuleset();
+      if (active.version !== version) {
+        throw new Error(`Expected v${version} to be active, got v${active.version}`);
+      }
+
+      // Disabled rules are not loaded
+      const evaluated = evaluateRuleset(active, withFeatures(features));
+      if (JSON.stringify(evaluated.signals) !== JSON.stringify(expected.signals) || evaluated.score !== expected.score) {
+        throw new Error(`Expected ${expected.signals} at ${expected.score}, got ${evaluated.signals} at ${evaluated.score}`);
+      }
+
+      const again = await callRoute(rulesRouter, { method: 'POST', url: `/${version}/activate`, analyst: admin });
+      if (again.body.status !== 'ALREADY_ACTIVE') {
+        throw new Error(`Expected ALREADY_ACTIVE on re-activation, got ${again.body.status}`);
+      }
+
+      console.log(`  ${conditions.length} conditions; v${version} live after activation with ${evaluated.signals.join(', ')}`);
+    } finally {
+      // Put the live ruleset back before removing the eval one
+      if (previous) {
+        await callRoute(rulesRouter, { method: 'POST', url: `/${previous.version}/activate`, analyst: admin });
+      }
+      await prisma.riskRule.deleteMany({ where: { ruleset_id: created.body.id } });
+      await prisma.riskRuleset.delete({ where: { id: created.body.id } });
+    }
+  }
+
+  async testCaseLifecycle(evalCase: any) {
+    const { cases: caseCount, reason_code: reasonCode, page_size: pageSize, transitions } = evalCase.scenario;
+    const expected = evalCase.expected;
+    const analysts: Record<string, Principal> = {
+      analyst: evalPrincipal('eval_analyst', 'analyst'),
+      supervisor: evalPrincipal('eval_supervisor', 'supervisor')
+    };
+
+    const customer = await prisma.customer.create({
+      data: { name: 'Test Lifecycle', email: `lifecycle-${crypto.randomUUID()}@example.com` }
+    });
+
+    try {
+      // A second apart, so the page order is known
+      const created = [];
+      for (let i = 0; i < caseCount; i++) {
+        created.push(await prisma.case.create({
+          data: {
+            customer_id: customer.id,
+            type: 'dispute',
+            status: 'open',
+            reason_code: reasonCode,
+            created_at: new Date(Date.now() - (caseCount - i) * 1000)
+          }
+        }));
+      }
+      const disputeId = created[0].id;
+
+      for (const t of transitions) {
+        const response = await callRoute(casesRouter, {
+          method: 'POST',
+          url: `/${disputeId}/transition`,
+          analyst: analysts[t.role],
+          body: { to: t.to }
+        });
+        if (response.status !== t.http_status || response.body.status !== t.status) {
+          throw new Error(`${t.role} -> ${t.to}: expected ${t.http_status} ${t.status}, got ${response.status} ${response.body.status}`);
+        }
+      }
+
+      const dispute = await prisma.case.findUniqueOrThrow({ where: { id: disputeId } });
+      if (dispute.status !== expected.final_status || !dispute.closed_at) {
+        throw new Error(`Expected a closed ${expected.final_status} case, got ${dispute.status}`);
+      }
+
+      // Only the accepted transitions were recorded
+      const report = await verifyCaseChain(disputeId);
+      const accepted = transitions.filter((t: any) => t.http_status === 200).length;
+      if (report?.valid !== expected.chain_valid || report?.events !== accepted) {
+        throw new Error(`Expected ${accepted} chained events, got ${JSON.stringify(report)}`);
+      }
+
+      // Page through the customer's cases, newest first
+      const seen: string[] = [];
+      const pageSizes: number[] = [];
+      let cursor: string | null = null;
+      do {
+        const page: { status: number; body: any } = await callRoute(casesRouter, {
+          method: 'GET',
+          url: '/',
+          analyst: analysts.analyst,
+          query: { customerId: customer.id, limit: String(pageSize), ...(cursor && { cursor }) }
+        });
+        if (page.status !== 200) throw new Error(`Case list failed: ${page.status} ${JSON.stringify(page.body)}`);
+        pageSizes.push(page.body.items.length);
+        seen.push(...page.body.items.map((c: any) => c.id));
+        cursor = page.body.nextCursor;
+      } while (cursor && pageSizes.length <= caseCount);
+
+      const newestFirst = created.map(c => c.id).reverse();
+      if (JSON.stringify(seen) !== JSON.stringify(newestFirst)) {
+        throw new Error(`Pages returned ${seen.length} cases out of order or with repeats`);
+      }
+      if (JSON.stringify(pageSizes) !== JSON.stringify(expected.page_sizes)) {
+        throw new Error(`Expected pages of ${expected.page_sizes}, got ${pageSizes}`);
+      }
+
+      const invalid = await callRoute(casesRouter, {
+        method: 'GET',
+        url: '/',
+        analyst: analysts.analyst,
+        query: { cursor: 'not-a-cursor' }
+      });
+      if (invalid.status !== expected.invalid_cursor_status) {
+        throw new Error(`Expected ${expected.invalid_cursor_status} for a malformed cursor, got ${invalid.status}`);
+      }
+
+      console.log(`  ${transitions.length} transitions checked; ${seen.length} cases over pages of ${pageSizes.join(', ')}`);
+    } finally {
+      await this.safeCleanup(customer.id);
+    }
+  }
+
+  async testFourEyesApproval(evalCase: any) {
+    const { action, customer: scenarioCustomer } = evalCase.scenario;
+    const expected = evalCase.expected;
+    const maker = evalPrincipal('eval_maker', 'analyst');
+    const checker = evalPrincipal('eval_checker', 'analyst');
+
+    const expectDecision = (label: string, response: { status: number; body: any }, want: any) => {
+      if (response.status !== want.http_status || response.body.status !== want.status) {
+        throw new Error(`${label}: expected ${want.http_status} ${want.status}, got ${response.status} ${JSON.stringify(response.body)}`);
+      }
+    };
+    const approve = (approvalId: string, analyst: Principal) =>
+      callRoute(approvalsRouter, { method: 'POST', url: `/${approvalId}/approve`, analyst, body: {} });
+
+    const customer = await prisma.customer.create({
+      data: {
+        name: 'Test Four Eyes',
+        email: `four-eyes-${crypto.randomUUID()}@example.com`,
+        kyc_level: scenarioCustomer.kyc_level
+      }
+    });
+    const card = await prisma.card.create({
+      data: { customer_id: customer.id, last4: '4343', network: 'visa', status: 'frozen' }
+    });
+
+    // The customer's OTP is checked before a request is made, so the eval
+    // starts from requests that already passed it
+    const request = () => requestApproval({
+      action,
+      requestedBy: maker.id,
+      targetId: card.id,
+      customerId: customer.id,
+      params: { cardId: card.id, reason: 'eval', supervisorId: null, otpChallengeId: 'otp_eval' }
+    });
+
+    try {
+      const approval = await request();
+
+      expectDecision('Maker approving', await approve(approval.id, maker), expected.same_analyst);
+      const stillFrozen = await prisma.card.findUniqueOrThrow({ where: { id: card.id } });
+      if (stillFrozen.status !== 'frozen') throw new Error('The maker\'s own approval ran the action');
+
+      const approved = await approve(approval.id, checker);
+      expectDecision('Checker approving', approved, expected.approved);
+      if (!approved.body.executed || approved.body.result?.status !== expected.approved.result) {
+        throw new Error(`Approval did not run the action: ${JSON.stringify(approved.body.result)}`);
+      }
+
+      const unfrozen = await prisma.card.findUniqueOrThrow({ where: { id: card.id } });
+      if (unfrozen.status !== expected.card_status_after_approval) {
+        throw new Error(`Expected the card to be ${expected.card_status_after_approval}, got ${unfrozen.status}`);
+      }
+      const stored = await prisma.approvalRequest.findUniqueOrThrow({ where: { id: approval.id } });
+      if (stored.status !== 'approved' || stored.decided_by !== checker.id || !stored.result_json) {
+        throw new Error(`Approval was not recorded: ${stored.status} by ${stored.decided_by}`);
+      }
+
+      expectDecision('Approving twice', await approve(approval.id, checker), expected.decided_twice);
+
+      // A request that ran out of time is expired on the spot, not run
+      await prisma.card.update({ where: { id: card.id }, data: { status: 'frozen' } });
+      const overdue = await request();
+      await prisma.approvalRequest.update({
+        where: { id: overdue.id },
+        data: { expires_at: new Date(Date.now() - 1000) }
+      });
+
+      expectDecision('Approving an expired request', await approve(overdue.id, checker), expected.expired);
+      const expired = await prisma.approvalRequest.findUniqueOrThrow({ where: { id: overdue.id } });
+      const afterExpiry = await prisma.card.findUniqueOrThrow({ where: { id: card.id } });
+      if (expired.status !== 'expired' || afterExpiry.status !== 'frozen') {
+        throw new Error(`Expired request left ${expired.status}, card ${afterExpiry.status}`);
+      }
+
+      console.log(`  Maker refused, checker approved and ran ${action}, expired request refused`);
+    } finally {
+      await this.safeCleanup(customer.id);
+    }
+  }
+
+  async testIdempotencyReplay(evalCase: any) {
+    const { method, base_url: baseUrl, path: routePath, body, reordered_body: reordered, conflicting_body: conflicting, response } = evalCase.scenario;
+    const expected = evalCase.expected;
+    // A caller and key of their own, so nothing else shares the record
+    const scope = `eval-${crypto.randomUUID()}`;
+    const key = crypto.randomUUID();
+
+    const fingerprint = fingerprintRequest(method, baseUrl + routePath, body);
+    if (fingerprintRequest(method, baseUrl + routePath, reordered) !== fingerprint) {
+      throw new Error('Key order changed the request fingerprint');
+    }
+
+    const claim = await claimIdempotencyKey(scope, key, fingerprint);
+    if (claim.status !== 'acquired') throw new Error(`Expected to acquire a fresh key, got ${claim.status}`);
+
+    try {
+      const duplicate = await claimIdempotencyKey(scope, key, fingerprint);
+      if (duplicate.status !== expected.duplicate_while_running) {
+        throw new Error(`Expected ${expected.duplicate_while_running} while the first request runs, got ${duplicate.status}`);
+      }
+
+      if (!await completeIdempotencyKey(scope, key, claim.token, fingerprint, response)) {
+        throw new Error('Lost the lock before the response was stored');
+      }
+
+      // Retries go through the middleware as they would over HTTP
+      const middleware = idempotency('action');
+      const retry = async (retryBody: unknown) => {
+        const answer = { status: 200, headers: {} as Record<string, string>, body: undefined as any, ran: false };
+        const res: any = {
+          set(name: string, value: string) {
+            answer.headers[name] = value;
+            return res;
+          },
+          status(code: number) {
+            answer.status = code;
+            return res;
+          },
+          json(sent: unknown) {
+            answer.body = sent;
+            return res;
+          },
+          on: () => res
+        };
+        const req: any = {
+          method,
+          baseUrl,
+          path: routePath,
+          headers: { 'idempotency-key': key },
+          body: retryBody,
+          analyst: { id: scope }
+        };
+        await middleware(req, res, () => { answer.ran = true; });
+        return answer;
+      };
+
+      const replayed = await retry(reordered);
+      if (replayed.ran) throw new Error('A replayed request ran the handler again');
+      if (replayed.status !== expected.replay_status || replayed.headers['Idempotent-Replayed'] !== expected.replayed_header) {
+        throw new Error(`Expected a ${expected.replay_status} replay, got ${replayed.status} ${JSON.stringify(replayed.headers)}`);
+      }
+      if (JSON.stringify(replayed.body) !== JSON.stringify(response.body)) {
+        throw new Error(`Replay returned ${JSON.stringify(replayed.body)}`);
+      }
+
+      const conflict = await retry(conflicting);
+      if (conflict.ran || conflict.status !== expected.conflict_status || conflict.body?.status !== expected.conflict) {
+        throw new Error(`Expected ${expected.conflict_status} ${expected.conflict} for another body, got ${conflict.status} ${conflict.body?.status}`);
+      }
+
+      console.log(`  Duplicate waited, retry replayed ${replayed.status}, other body refused with ${conflict.status}`);
+    } finally {
+      await releaseIdempotencyKey(scope, key, claim.token);
+    }
+  }
+
   printSummary() {
     console.log('\n' + '='.repeat(60));
     console.log('📊 EVALUATION SUMMARY');
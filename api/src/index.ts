@@ -1,8 +1,8 @@
 import express from 'express';
 import cors from 'cors';
-import { rateLimitMiddleware } from './middleware/rateLimit.js';
+import { rateLimit } from './middleware/rateLimit.js';
 import { metricsMiddleware } from './middleware/metrics.js';
-import { redactRequestBody, redactResponseBody, requireApiKey, idempotencyMiddleware } from './middleware/security.js';
+import { redactRequestBody, redactResponseBody, requireAuth, requirePermission, idempotency } from './middleware/security.js';
 import { register } from './lib/metrics.js';
 import customerRouter from './routes/customer.js';
 import insightsRouter from './routes/insights.js';
@@ -10,12 +10,23 @@ import ingestRouter from './routes/ingest.js';
 import triageRouter from './routes/triage.js';
 import alertsRouter from './routes/alerts.js';
 import actionsRouter from './routes/actions.js';
+import rulesRouter from './routes/rules.js';
+import casesRouter, { isAttachmentUpload } from './routes/cases.js';
+import bulkActionsRouter from './routes/bulkActions.js';
+import approvalsRouter from './routes/approvals.js';
+import authRouter from './routes/auth.js';
+import analystsRouter from './routes/analysts.js';
+import apiKeysRouter from './routes/apiKeys.js';
+import vaultRouter from './routes/vault.js';
+import { logger } from './lib/logger.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 app.use(cors());
-app.use(express.json());
+// Attachment uploads read their own raw body, whatever its content type
+const jsonParser = express.json();
+app.use((req, res, next) => (isAttachmentUpload(req) ? next() : jsonParser(req, res, next)));
 app.use(metricsMiddleware);
 
 // Security middlewares
@@ -34,16 +45,25 @@ app.get('/metrics', async (req, res) => {
   res.end(await register.metrics());
 });
 
-// API routes (with rate limiting)
-app.use('/api/customer', rateLimitMiddleware, customerRouter);
-app.use('/api/insights', rateLimitMiddleware, insightsRouter);
-app.use('/api/ingest', rateLimitMiddleware, idempotencyMiddleware, ingestRouter);
+// API routes (rate limited per client, by route group)
+app.use('/api/customer', requirePermission('insights:read'), rateLimit('read'), customerRouter);
+app.use('/api/insights', requirePermission('insights:read'), rateLimit('read'), insightsRouter);
+app.use('/api/ingest', requirePermission('ingest:write'), rateLimit('ingest'), idempotency('ingest'), ingestRouter);
 app.use('/api/triage', triageRouter);
 app.use('/api/alerts', alertsRouter);
-app.use('/api/action', requireApiKey, idempotencyMiddleware, actionsRouter);
+app.use('/api/auth', authRouter);
+app.use('/api/analysts', requirePermission('analysts:manage'), analystsRouter);
+app.use('/api/keys', requirePermission('keys:manage'), apiKeysRouter);
+app.use('/api/vault', requirePermission('pii:detokenize'), rateLimit('action'), vaultRouter);
+app.use('/api/action/bulk', requireAuth, rateLimit('action', 'read'), idempotency('action'), bulkActionsRouter);
+app.use('/api/action', requirePermission('actions:write'), rateLimit('action', 'read'), idempotency('action'), actionsRouter);
+app.use('/api/approvals', requireAuth, rateLimit('action', 'read'), idempotency('action'), approvalsRouter);
+// Rules and cases check permissions per route
+app.use('/api/rules', rulesRouter);
+app.use('/api/cases', casesRouter);
 
 app.listen(PORT, () => {
-  console.log(`🚀 API running on http://localhost:${PORT}`);
-  console.log(`📊 Metrics: http://localhost:${PORT}/metrics`);
-  console.log(`🔒 Security: PII redaction enabled`);
+  logger.info(`🚀 API running on http://localhost:${PORT}`);
+  logger.info(`📊 Metrics: http://localhost:${PORT}/metrics`);
+  logger.info(`🔒 Security: PII redaction enabled`);
 });
\ No newline at end of file
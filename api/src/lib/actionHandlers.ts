@@ -0,0 +1,431 @@
+import { PrismaClient, type ApprovalRequest } from '@prisma/client';
+import { checkOtp, verifyOtp, type OtpAction, type OtpVerification } from './otp.js';
+import { StoreUnavailableError, storeUnavailableBody } from './failurePolicy.js';
+import { appendCaseEvent } from './auditLog.js';
+import { OPEN_CASE_STATUSES } from './caseLifecycle.js';
+import { requiresApproval, requestApproval, type ApprovalGrant } from './approvals.js';
+
+const prisma = new PrismaClient();
+
+// Shared by the single-item routes in routes/actions.ts, the bulk job runner
+// and approved four-eyes requests, so all apply the same checks. A handler never throws for a
+// business outcome; it returns the status code and body to answer with.
+export interface ActionOutcome {
+  ok: boolean;
+  httpStatus: number;
+  body: Record<string, any>;
+}
+
+const outcome = (ok: boolean, httpStatus: number, body: Record<string, any>): ActionOutcome =>
+  ({ ok, httpStatus, body });
+
+// Case types that block reversing a freeze while still open
+const FRAUD_CASE_TYPES = ['fraud'];
+
+// Alerts an analyst may still dismiss. An alert being triaged stays open;
+// closed and confirmed-fraud alerts are final.
+const DISMISSABLE_ALERT_STATUSES = ['open'];
+
+// The action is waiting for a second analyst
+export function pendingApproval(approval: ApprovalRequest): ActionOutcome {
+  return outcome(false, 202, {
+    status: 'PENDING_APPROVAL',
+    approvalId: approval.id,
+    action: approval.action,
+    requestedBy: approval.requested_by,
+    caseId: approval.case_id,
+    expiresAt: approval.expires_at.toISOString(),
+    message: `Waiting for a second analyst to approve via /api/approvals/${approval.id}/approve`
+  });
+}
+
+// Outcome for an OTP that did not verify, or null when it did
+export function otpFailure(verification: OtpVerification): ActionOutcome | null {
+  switch (verification.status) {
+    case 'locked':
+      return outcome(false, 429, {
+        error: 'Too many failed OTP attempts',
+        status: 'OTP_LOCKED',
+        retryAfter: verification.retryAfter
+      });
+    case 'expired':
+      return outcome(false, 400, {
+        error: 'No active OTP for this card, request a new one',
+        status: 'OTP_EXPIRED'
+      });
+    case 'invalid':
+      return outcome(false, 400, {
+        error: 'Invalid OTP',
+        status: 'OTP_FAILED',
+        attemptsRemaining: verification.attemptsRemaining
+      });
+    default:
+      return null;
+  }
+}
+
+// Verify a code for a card action: the challenge it consumed (or, with
+// `consume` false, would consume), or the outcome to refuse with (including
+// 503 when the OTP store is down)
+export async function verifyActionOtp(
+  cardId: string,
+  action: OtpAction,
+  code: string,
+  consume = true
+): Promise<{ challengeId: string } | { failure: ActionOutcome }> {
+  let verification: OtpVerification;
+  try {
+    verification = consume ? await verifyOtp(cardId, action, code) : await checkOtp(cardId, action, code);
+  } catch (error) {
+    if (error instanceof StoreUnavailableError) {
+      return { failure: outcome(false, 503, storeUnavailableBody('otp')) };
+    }
+    throw error;
+  }
+
+  if (verification.status === 'verified') return { challengeId: verification.challengeId };
+  return { failure: otpFailure(verification)! };
+}
+
+export async function freezeCard(input: {
+  cardId: string;
+  otp?: string;
+  // Challenge the caller already verified (bulk requests check codes up front)
+  otpChallengeId?: string | null;
+  reason?: string;
+  parentCaseId?: string;
+  // Analyst the action is recorded against; the maker for approved requests
+  actor: string;
+  approval?: ApprovalGrant;
+}): Promise<ActionOutcome> {
+  // Check if card exists
+  const card = await prisma.card.findUnique({
+    where: { id: input.cardId },
+    include: {
+      customer: {
+        select: { kyc_level: true }
+      }
+    }
+  });
+
+  if (!card) {
+    return outcome(false, 404, { error: 'Card not found', status: 'NOT_FOUND' });
+  }
+
+  // Check if already frozen
+  if (card.status === 'frozen') {
+    return outcome(true, 200, {
+      status: 'ALREADY_FROZEN',
+      cardId: input.cardId,
+      message: 'Card is already frozen'
+    });
+  }
+
+  const needsApproval = !input.approval && await requiresApproval('freeze_card', card.customer.kyc_level);
+
+  // OTP requirement check
+  const requiresOtp = card.customer.kyc_level >= 3;
+  let otpChallengeId: string | null = input.approval?.otpChallengeId ?? input.otpChallengeId ?? null;
+
+  if (requiresOtp && !otpChallengeId) {
+    if (!input.otp) {
+      return outcome(false, 200, {
+        status: 'PENDING_OTP',
+        cardId: input.cardId,
+        message: 'OTP verification required for high-value accounts, request one via /api/action/issue-otp',
+        requiresOtp: true
+      });
+    }
+
+    // Verify against the challenge issued via /issue-otp
+    const verified = await verifyActionOtp(input.cardId, 'freeze_card', input.otp);
+    if ('failure' in verified) return verified.failure;
+    otpChallengeId = verified.challengeId;
+  }
+
+  if (needsApproval) {
+    return pendingApproval(await requestApproval({
+      action: 'freeze_card',
+      requestedBy: input.actor,
+      targetId: card.id,
+      customerId: card.customer_id,
+      parentCaseId: input.parentCaseId,
+      params: {
+        cardId: card.id,
+        reason: input.reason ?? null,
+        parentCaseId: input.parentCaseId ?? null,
+        otpChallengeId
+      }
+    }));
+  }
+
+  // Freeze the card
+  const updatedCard = await prisma.card.update({
+    where: { id: input.cardId },
+    data: { status: 'frozen' }
+  });
+
+  // Create case event for audit
+  const caseRecord = await prisma.case.create({
+    data: {
+      customer_id: card.customer_id,
+      type: 'card_freeze',
+      status: 'completed',
+      reason_code: input.reason || 'suspected_fraud',
+      parent_case_id: input.parentCaseId
+    }
+  });
+
+  await appendCaseEvent({
+    case_id: caseRecord.id,
+    actor: input.actor,
+    action: 'card_frozen',
+    payload_json: {
+      cardId: input.cardId,
+      cardLast4: card.last4,
+      otpVerified: requiresOtp,
+      otpChallengeId,
+      approvalId: input.approval?.approvalId ?? null,
+      approvedBy: input.approval?.approvedBy ?? null
+    }
+  });
+
+  return outcome(true, 200, {
+    status: 'FROZEN',
+    cardId: updatedCard.id,
+    cardLast4: card.last4,
+    caseId: caseRecord.id,
+    approvalId: input.approval?.approvalId,
+    message: 'Card successfully frozen',
+    timestamp: new Date().toISOString()
+  });
+}
+
+export async function unfreezeCard(input: {
+  cardId: string;
+  otp?: string;
+  reason: string;
+  // Supervisor signing off on the reversal while fraud cases are open
+  supervisorId?: string;
+  actor: string;
+  approval?: ApprovalGrant;
+}): Promise<ActionOutcome> {
+  const card = await prisma.card.findUnique({
+    where: { id: input.cardId }
+  });
+
+  if (!card) {
+    return outcome(false, 404, { error: 'Card not found', status: 'NOT_FOUND' });
+  }
+
+  if (card.status !== 'frozen') {
+    return outcome(true, 200, {
+      status: 'NOT_FROZEN',
+      cardId: input.cardId,
+      message: 'Card is not frozen'
+    });
+  }
+
+  // Open fraud cases block the reversal unless a supervisor signs off, either
+  // as the maker or as the checker of an approval request. Checked before the
+  // OTP so a refused request does not burn the code.
+  const openFraudCases = await prisma.case.findMany({
+    where: {
+      customer_id: card.customer_id,
+      type: { in: FRAUD_CASE_TYPES },
+      status: { in: OPEN_CASE_STATUSES }
+    },
+    select: { id: true }
+  });
+
+  const needsSupervisor = openFraudCases.length > 0 && !input.supervisorId;
+  const needsApproval = !input.approval && await requiresApproval('unfreeze_card');
+
+  // Without four-eyes there is no request a supervisor could approve
+  if (needsSupervisor && !needsApproval) {
+    return outcome(false, 409, {
+      error: 'Customer has open fraud cases, only a supervisor may unfreeze',
+      status: 'SUPERVISOR_APPROVAL_REQUIRED',
+      openCaseIds: openFraudCases.map(c => c.id)
+    });
+  }
+
+  // Unfreezing restores spending, so it always needs the customer's OTP
+  let otpChallengeId: string | null = input.approval?.otpChallengeId ?? null;
+
+  if (!otpChallengeId) {
+    if (!input.otp) {
+      return outcome(false, 200, {
+        status: 'PENDING_OTP',
+        cardId: input.cardId,
+        message: 'OTP verification required to unfreeze, request one via /api/action/issue-otp',
+        requiresOtp: true
+      });
+    }
+
+    const verified = await verifyActionOtp(input.cardId, 'unfreeze_card', input.otp);
+    if ('failure' in verified) return verified.failure;
+    otpChallengeId = verified.challengeId;
+  }
+
+  if (needsApproval) {
+    return pendingApproval(await requestApproval({
+      action: 'unfreeze_card',
+      requestedBy: input.actor,
+      targetId: card.id,
+      customerId: card.customer_id,
+      checkerRole: needsSupervisor ? 'supervisor' : undefined,
+      params: {
+        cardId: card.id,
+        reason: input.reason,
+        supervisorId: input.supervisorId ?? null,
+        otpChallengeId
+      }
+    }));
+  }
+
+  // The freeze being reversed
+  const freezeEvent = await prisma.caseEvent.findFirst({
+    where: {
+      action: 'card_frozen',
+      payload_json: { path: ['cardId'], equals: input.cardId },
+      case: { type: 'card_freeze' }
+    },
+    orderBy: { ts: 'desc' }
+  });
+  const freezeCaseId = freezeEvent?.case_id ?? null;
+
+  const updatedCard = await prisma.card.update({
+    where: { id: input.cardId },
+    data: { status: 'active' }
+  });
+
+  const caseRecord = await prisma.case.create({
+    data: {
+      customer_id: card.customer_id,
+      type: 'card_unfreeze',
+      status: 'completed',
+      reason_code: input.reason
+    }
+  });
+
+  const payload = {
+    cardId: input.cardId,
+    cardLast4: card.last4,
+    reason: input.reason,
+    freezeCaseId,
+    unfreezeCaseId: caseRecord.id,
+    otpChallengeId,
+    supervisorId: input.supervisorId ?? null,
+    openFraudCaseIds: openFraudCases.map(c => c.id),
+    approvalId: input.approval?.approvalId ?? null,
+    approvedBy: input.approval?.approvedBy ?? null
+  };
+
+  await appendCaseEvent({
+    case_id: caseRecord.id,
+    actor: input.actor,
+    action: 'card_unfrozen',
+    payload_json: payload
+  });
+
+  // Mark the original freeze as reversed so its history is complete
+  if (freezeCaseId) {
+    await appendCaseEvent({
+      case_id: freezeCaseId,
+      actor: input.actor,
+      action: 'freeze_reversed',
+      payload_json: payload
+    });
+  }
+
+  return outcome(true, 200, {
+    status: 'UNFROZEN',
+    cardId: updatedCard.id,
+    cardLast4: card.last4,
+    caseId: caseRecord.id,
+    freezeCaseId,
+    supervisorApproved: openFraudCases.length > 0,
+    approvalId: input.approval?.approvalId,
+    message: 'Card successfully unfrozen',
+    timestamp: new Date().toISOString()
+  });
+}
+
+export async function markFalsePositive(input: {
+  alertId: string;
+  notes?: string;
+  parentCaseId?: string;
+  actor: string;
+}): Promise<ActionOutcome> {
+  // Get alert
+  const alert = await prisma.alert.findUnique({
+    where: { id: input.alertId },
+    include: {
+      customer: {
+        select: { id: true, name: true }
+      }
+    }
+  });
+
+  if (!alert) {
+    return outcome(false, 404, { error: 'Alert not found', status: 'NOT_FOUND' });
+  }
+
+  if (alert.status === 'false_positive') {
+    return outcome(true, 200, {
+      status: 'ALREADY_CLOSED',
+      alertId: alert.id,
+      message: 'Alert is already marked as false positive'
+    });
+  }
+
+  const notDismissable = (alertStatus: string) => outcome(false, 409, {
+    error: `Alert is ${alertStatus}, only open alerts can be marked as false positive`,
+    status: 'ALERT_NOT_OPEN',
+    alertId: alert.id,
+    alertStatus
+  });
+
+  if (!DISMISSABLE_ALERT_STATUSES.includes(alert.status)) return notDismissable(alert.status);
+
+  // Conditional, so a decision made since the read is not overwritten
+  const updated = await prisma.alert.updateMany({
+    where: { id: input.alertId, status: { in: DISMISSABLE_ALERT_STATUSES } },
+    data: { status: 'false_positive' }
+  });
+  if (updated.count !== 1) {
+    const current = await prisma.alert.findUnique({ where: { id: input.alertId }, select: { status: true } });
+    return notDismissable(current?.status ?? 'gone');
+  }
+
+  // Create case for audit trail
+  const caseRecord = await prisma.case.create({
+    data: {
+      customer_id: alert.customer_id,
+      type: 'false_positive',
+      status: 'closed',
+      reason_code: 'verified_legitimate',
+      parent_case_id: input.parentCaseId
+    }
+  });
+
+  await appendCaseEvent({
+    case_id: caseRecord.id,
+    actor: input.actor,
+    action: 'marked_false_positive',
+    payload_json: {
+      alertId: input.alertId,
+      originalRisk: alert.risk,
+      notes: input.notes
+    }
+  });
+
+  return outcome(true, 200, {
+    status: 'CLOSED',
+    alertId: alert.id,
+    caseId: caseRecord.id,
+    message: 'Alert marked as false positive',
+    timestamp: new Date().toISOString()
+  });
+}
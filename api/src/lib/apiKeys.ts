@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { PrismaClient, type ApiKey } from '@prisma/client';
+import { logger } from './logger.js';
+
+const prisma = new PrismaClient();
+
+export const API_KEY_SCOPES = ['actions:write', 'ingest:write', 'insights:read', 'cases:read', 'admin'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Scopes a key without an analyst may hold: integrations feed data in and
+// read insights, but have no identity to act on cases or cards with
+export const INTEGRATION_SCOPES: ApiKeyScope[] = ['ingest:write', 'insights:read'];
+
+// Default scopes for an analyst's key, by role
+export const ROLE_DEFAULT_SCOPES: Record<string, ApiKeyScope[]> = {
+  viewer: ['cases:read', 'insights:read'],
+  analyst: ['actions:write', 'ingest:write', 'insights:read', 'cases:read'],
+  supervisor: ['actions:write', 'ingest:write', 'insights:read', 'cases:read'],
+  admin: [...API_KEY_SCOPES]
+};
+
+// How long a rotated key keeps working so clients can switch over
+export const KEY_ROTATION_GRACE_SECONDS = parseInt(process.env.KEY_ROTATION_GRACE_SECONDS || '3600');
+
+// last_used_at is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const KEY_PREFIX_LENGTH = 11;
+
+export class ApiKeyError extends Error {
+  constructor(public code: 'NOT_FOUND' | 'ANALYST_NOT_FOUND' | 'REVOKED' | 'INVALID_SCOPES', message: string) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export function generateApiKey(): string {
+  return `zk_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+// Keys are high-entropy, so a plain digest is enough to store them
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+export function isActive(key: Pick<ApiKey, 'revoked_at' | 'expires_at'>, now = new Date()): boolean {
+  return !key.revoked_at && (!key.expires_at || key.expires_at > now);
+}
+
+// Record view without the digest
+export function describeKey(key: ApiKey) {
+  const { key_hash, ...rest } = key;
+  return { ...rest, active: isActive(key) };
+}
+
+// Create a key; the plaintext is only ever returned here and by rotateApiKey
+export async function createApiKey(input: {
+  name: string;
+  scopes: ApiKeyScope[];
+  analystId?: string | null;
+  expiresAt?: Date | null;
+  createdBy: string;
+  // Plaintext to store instead of a generated key (seeding a known dev key)
+  apiKey?: string;
+}): Promise<{ key: ApiKey; apiKey: string }> {
+  // A key never holds more than its analyst's role could use
+  let allowed = INTEGRATION_SCOPES;
+  if (input.analystId) {
+    const analyst = await prisma.analyst.findUnique({ where: { id: input.analystId } });
+    if (!analyst) throw new ApiKeyError('ANALYST_NOT_FOUND', 'Analyst not found');
+    allowed = ROLE_DEFAULT_SCOPES[analyst.role] ?? [];
+  }
+
+  const disallowed = input.scopes.filter(s => !allowed.includes(s));
+  if (disallowed.length > 0) {
+    throw new ApiKeyError(
+      'INVALID_SCOPES',
+      `${input.analystId ? 'This analyst\'s keys' : 'Keys without an analyst'} may only hold ` +
+        `${allowed.join(', ')} (got ${disallowed.join(', ')})`
+    );
+  }
+
+  const apiKey = input.apiKey ?? generateApiKey();
+  const key = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      prefix: apiKey.slice(0, KEY_PREFIX_LENGTH),
+      key_hash: hashApiKey(apiKey),
+      scopes: Array.from(new Set(input.scopes)),
+      analyst_id: input.analystId ?? null,
+      expires_at: input.expiresAt ?? null,
+      created_by: input.createdBy
+    }
+  });
+
+  return { key, apiKey };
+}
+
+// Replace a key with a new one holding the same name, scopes and analyst.
+// The old key keeps working for the grace period, then expires.
+export async function rotateApiKey(
+  keyId: string,
+  rotatedBy: string,
+  graceSeconds = KEY_ROTATION_GRACE_SECONDS
+): Promise<{ key: ApiKey; apiKey: string; previous: ApiKey }> {
+  const existing = await prisma.apiKey.findUnique({ where: { id: keyId } });
+  if (!existing) throw new ApiKeyError('NOT_FOUND', 'API key not found');
+  if (!isActive(existing)) throw new ApiKeyError('REVOKED', 'API key is revoked or expired');
+
+  const { key, apiKey } = await createApiKey({
+    name: existing.name,
+    scopes: existing.scopes as ApiKeyScope[],
+    analystId: existing.analyst_id,
+    expiresAt: existing.expires_at,
+    createdBy: rotatedBy
+  });
+
+  const graceEnds = new Date(Date.now() + graceSeconds * 1000);
+  const previous = await prisma.apiKey.update({
+    where: { id: keyId },
+    data: {
+      rotated_to_id: key.id,
+      expires_at: existing.expires_at && existing.expires_at < graceEnds ? existing.expires_at : graceEnds
+    }
+  });
+
+  return { key, apiKey, previous };
+}
+
+export async function revokeApiKey(keyId: string, revokedBy: string): Promise<ApiKey> {
+  const existing = await prisma.apiKey.findUnique({ where: { id: keyId } });
+  if (!existing) throw new ApiKeyError('NOT_FOUND', 'API key not found');
+  if (existing.revoked_at) return existing;
+
+  return prisma.apiKey.update({
+    where: { id: keyId },
+    data: { revoked_at: new Date(), revoked_by: revokedBy }
+  });
+}
+
+// Active key matching a presented plaintext key, with its analyst
+export async function findActiveKey(apiKey: string) {
+  const key = await prisma.apiKey.findUnique({
+    where: { key_hash: hashApiKey(apiKey) },
+    include: { analyst: true }
+  });
+
+  if (!key || !isActive(key)) return null;
+  return key;
+}
+
+// Note that a key was used, at most once per LAST_USED_RESOLUTION_MS
+export function touchApiKey(keyId: string): void {
+  const staleBefore = new Date(Date.now() - LAST_USED_RESOLUTION_MS);
+
+  prisma.apiKey.updateMany({
+    where: {
+      id: keyId,
+      OR: [{ last_used_at: null }, { last_used_at: { lt: staleBefore } }]
+    },
+    data: { last_used_at: new Date() }
+  }).catch(err => logger.error({ err }, `Failed to record use of API key ${keyId}`));
+}
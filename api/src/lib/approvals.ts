@@ -0,0 +1,269 @@
+import { PrismaClient, Prisma, type ApprovalRequest } from '@prisma/client';
+import { appendCaseEvent } from './auditLog.js';
+import { loadDecisionPolicies, matchingRequirements } from './policies.js';
+import type { ActionOutcome } from './actionHandlers.js';
+import { redactToVault } from './redactor.js';
+import { isSupervisor, type Principal } from './auth.js';
+
+const prisma = new PrismaClient();
+
+// Maker-checker: a listed action is recorded as a pending request by the
+// analyst making it and only runs once a different analyst approves.
+
+export const APPROVAL_ACTIONS = [
+  'freeze_card',
+  'unfreeze_card',
+  'bulk_mark_false_positive',
+  'bulk_freeze_card'
+] as const;
+export type ApprovalAction = typeof APPROVAL_ACTIONS[number];
+
+// Actions gated by four-eyes approval. freeze_card is only gated where the
+// decision tables require approvals (FREEZE_LIMIT: KYC level 3 and up).
+const FOUR_EYES_ACTIONS = new Set(
+  (process.env.FOUR_EYES_ACTIONS ?? APPROVAL_ACTIONS.join(','))
+    .split(',')
+    .map(a => a.trim())
+    .filter(Boolean)
+);
+
+// How long a request waits for a checker before it expires
+export const APPROVAL_TTL_MINUTES = parseInt(process.env.APPROVAL_TTL_MINUTES || '60');
+
+// Granted to an action that runs because its request was approved
+export interface ApprovalGrant {
+  approvalId: string;
+  approvedBy: string;
+  // OTP already verified when the request was made
+  otpChallengeId?: string | null;
+}
+
+export type ApprovalDecisionCode = 'NOT_FOUND' | 'SAME_ANALYST' | 'SUPERVISOR_REQUIRED' | 'EXPIRED' | 'ALREADY_DECIDED';
+
+export class ApprovalDecisionError extends Error {
+  constructor(public code: ApprovalDecisionCode, message: string, public approvalStatus?: string) {
+    super(message);
+    this.name = 'ApprovalDecisionError';
+  }
+}
+
+export async function requiresApproval(action: ApprovalAction, kycLevel = 0): Promise<boolean> {
+  if (!FOUR_EYES_ACTIONS.has(action)) return false;
+  if (action !== 'freeze_card') return true;
+
+  const policies = await loadDecisionPolicies();
+  return matchingRequirements(policies, 'freeze_card', kycLevel)
+    .some(({ rule }) => (rule.requiredApprovals ?? 0) > 0);
+}
+
+// Record a pending request and its approval case. A request already pending
+// for the same action and target is returned instead of a duplicate.
+export async function requestApproval(input: {
+  action: ApprovalAction;
+  requestedBy: string;
+  params: Prisma.InputJsonObject;
+  targetId?: string;
+  customerId?: string | null;
+  parentCaseId?: string;
+  // Only a supervisor may approve (e.g. unfreezing over open fraud cases)
+  checkerRole?: 'supervisor';
+}): Promise<ApprovalRequest> {
+  if (input.targetId) {
+    const existing = await prisma.approvalRequest.findFirst({
+      where: {
+        action: input.action,
+        target_id: input.targetId,
+        checker_role: input.checkerRole ?? null,
+        status: 'pending',
+        expires_at: { gt: new Date() }
+      },
+      orderBy: { created_at: 'desc' }
+    });
+    if (existing) return existing;
+  }
+
+  const expiresAt = new Date(Date.now() + APPROVAL_TTL_MINUTES * 60 * 1000);
+
+  const caseRecord = await prisma.case.create({
+    data: {
+      customer_id: input.customerId ?? null,
+      type: 'approval',
+      status: 'open',
+      reason_code: input.action,
+      parent_case_id: input.parentCaseId
+    }
+  });
+
+  const approval = await prisma.approvalRequest.create({
+    data: {
+      action: input.action,
+      target_id: input.targetId ?? null,
+      params_json: input.params,
+      requested_by: input.requestedBy,
+      checker_role: input.checkerRole ?? null,
+      case_id: caseRecord.id,
+      expires_at: expiresAt
+    }
+  });
+
+  // Bulk requests carry their full target list; the event only counts it
+  const { targets, ...params } = input.params;
+
+  await appendCaseEvent({
+    case_id: caseRecord.id,
+    actor: input.requestedBy,
+    action: 'approval_requested',
+    payload_json: {
+      approvalId: approval.id,
+      action: input.action,
+      targetId: input.targetId ?? null,
+      params,
+      targetCount: Array.isArray(targets) ? targets.length : undefined,
+      checkerRole: input.checkerRole ?? null,
+      expiresAt: expiresAt.toISOString()
+    }
+  });
+
+  return approval;
+}
+
+// Expire one overdue request; false when it was decided in the meantime
+async function expireApproval(approval: ApprovalRequest): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.approvalRequest.updateMany({
+    where: { id: approval.id, status: 'pending' },
+    data: { status: 'expired', decided_at: now }
+  });
+  if (count === 0) return false;
+
+  await prisma.case.update({
+    where: { id: approval.case_id },
+    data: { status: 'expired', closed_at: now }
+  });
+
+  await appendCaseEvent({
+    case_id: approval.case_id,
+    actor: 'system',
+    action: 'approval_expired',
+    payload_json: {
+      approvalId: approval.id,
+      action: approval.action,
+      expiresAt: approval.expires_at.toISOString()
+    }
+  });
+
+  return true;
+}
+
+// Expire every pending request past its deadline; returns how many were
+export async function expireApprovals(): Promise<number> {
+  const overdue = await prisma.approvalRequest.findMany({
+    where: { status: 'pending', expires_at: { lte: new Date() } },
+    orderBy: { expires_at: 'asc' },
+    take: 100
+  });
+
+  let expired = 0;
+  for (const approval of overdue) {
+    if (await expireApproval(approval)) expired++;
+  }
+  return expired;
+}
+
+// Approve or reject a pending request. The checker must not be the maker,
+// and must be a supervisor to approve a request that asks for one.
+export async function decideApproval(
+  approvalId: string,
+  decision: 'approved' | 'rejected',
+  checker: Principal,
+  note?: string
+): Promise<ApprovalRequest> {
+  const actor = checker.id;
+  const approval = await prisma.approvalRequest.findUnique({ where: { id: approvalId } });
+
+  if (!approval) {
+    throw new ApprovalDecisionError('NOT_FOUND', 'Approval request not found');
+  }
+  if (decision === 'approved' && approval.checker_role === 'supervisor' && !isSupervisor(checker)) {
+    throw new ApprovalDecisionError(
+      'SUPERVISOR_REQUIRED',
+      'Only a supervisor may approve this request',
+      approval.status
+    );
+  }
+  if (approval.requested_by === actor) {
+    throw new ApprovalDecisionError(
+      'SAME_ANALYST',
+      'Approval requests must be decided by a different analyst than the one who made them',
+      approval.status
+    );
+  }
+  if (approval.status === 'pending' && approval.expires_at <= new Date()) {
+    await expireApproval(approval);
+    throw new ApprovalDecisionError('EXPIRED', 'Approval request has expired', 'expired');
+  }
+
+  const now = new Date();
+  const { count } = await prisma.approvalRequest.updateMany({
+    where: { id: approvalId, status: 'pending', expires_at: { gt: now } },
+    data: { status: decision, decided_by: actor, decision_note: note, decided_at: now }
+  });
+
+  if (count === 0) {
+    const current = await prisma.approvalRequest.findUnique({ where: { id: approvalId } });
+    throw new ApprovalDecisionError(
+      'ALREADY_DECIDED',
+      `Approval request is already ${current?.status ?? approval.status}`,
+      current?.status ?? approval.status
+    );
+  }
+
+  if (decision === 'rejected') {
+    await prisma.case.update({
+      where: { id: approval.case_id },
+      data: { status: 'rejected', closed_at: now }
+    });
+  }
+
+  await appendCaseEvent({
+    case_id: approval.case_id,
+    actor,
+    action: decision === 'approved' ? 'approval_approved' : 'approval_rejected',
+    payload_json: {
+      approvalId,
+      action: approval.action,
+      requestedBy: approval.requested_by,
+      note: note ?? null
+    }
+  });
+
+  return { ...approval, status: decision, decided_by: actor, decision_note: note ?? null, decided_at: now };
+}
+
+// Store what the approved action did and close the approval case
+export async function recordApprovalResult(approval: ApprovalRequest, outcome: ActionOutcome): Promise<void> {
+  await prisma.approvalRequest.update({
+    where: { id: approval.id },
+    data: { result_json: await redactToVault(outcome.body, 'response') }
+  });
+
+  await prisma.case.update({
+    where: { id: approval.case_id },
+    data: { status: outcome.ok ? 'completed' : 'failed', closed_at: new Date() }
+  });
+
+  await appendCaseEvent({
+    case_id: approval.case_id,
+    actor: 'system',
+    action: 'approval_executed',
+    payload_json: {
+      approvalId: approval.id,
+      action: approval.action,
+      ok: outcome.ok,
+      httpStatus: outcome.httpStatus,
+      status: outcome.body.status ?? null,
+      caseId: outcome.body.caseId ?? null,
+      jobId: outcome.body.jobId ?? null
+    }
+  });
+}
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Case attachments live on local disk, one directory per case. The
+// metadata is recorded in the case's attachment_added event.
+export const ATTACHMENT_DIR = process.env.ATTACHMENT_DIR || 'data/attachments';
+export const ATTACHMENT_MAX_BYTES = parseInt(process.env.ATTACHMENT_MAX_BYTES || String(5 * 1024 * 1024));
+
+export interface StoredAttachment {
+  attachmentId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+}
+
+function attachmentPath(caseId: string, attachmentId: string): string {
+  return path.join(ATTACHMENT_DIR, caseId, attachmentId);
+}
+
+// Keep the original name for display only; it never touches the filesystem
+export function sanitizeFilename(filename: string): string {
+  return path.basename(filename).replace(/[^\w.\- ]/g, '_').slice(0, 200) || 'attachment';
+}
+
+export async function saveAttachment(
+  caseId: string,
+  filename: string,
+  contentType: string,
+  content: Buffer
+): Promise<StoredAttachment> {
+  const attachmentId = crypto.randomUUID();
+  const file = attachmentPath(caseId, attachmentId);
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content, { flag: 'wx' });
+
+  return {
+    attachmentId,
+    filename: sanitizeFilename(filename),
+    contentType,
+    size: content.length,
+    sha256: crypto.createHash('sha256').update(content).digest('hex')
+  };
+}
+
+export async function readAttachment(caseId: string, attachmentId: string): Promise<Buffer | null> {
+  // Ids are generated by saveAttachment; anything else is not ours to read
+  if (!/^[0-9a-f-]{36}$/.test(caseId) || !/^[0-9a-f-]{36}$/.test(attachmentId)) return null;
+
+  try {
+    return await fs.readFile(attachmentPath(caseId, attachmentId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, type CaseEvent } from '@prisma/client';
+import { redactToVault } from './redactor.js';
+
+const prisma = new PrismaClient();
+
+// CaseEvents form a hash chain per case: each event's hash covers its own
+// content and the previous event's hash, and the case row keeps the hash of
+// the latest event. Editing, removing or reordering any event breaks the chain.
+
+export interface CaseEventInput {
+  case_id: string;
+  actor: string;
+  action: string;
+  payload_json?: Prisma.InputJsonValue;
+}
+
+export type ChainBreak = {
+  seq: number;
+  eventId: string | null;
+  reason: 'unsealed' | 'seq_gap' | 'prev_hash_mismatch' | 'hash_mismatch' | 'head_mismatch';
+};
+
+export interface ChainReport {
+  caseId: string;
+  events: number;
+  valid: boolean;
+  headHash: string | null;
+  breaks: ChainBreak[];
+}
+
+// JSON with sorted keys, so the hash does not depend on key order in jsonb
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+export function hashCaseEvent(event: {
+  case_id: string;
+  seq: number;
+  ts: Date;
+  actor: string;
+  action: string;
+  payload_json: unknown;
+  prev_hash: string | null;
+}): string {
+  // Round-trip the payload so it hashes exactly as it will be read back
+  const payload = event.payload_json === undefined || event.payload_json === null
+    ? null
+    : JSON.parse(JSON.stringify(event.payload_json));
+
+  return crypto.createHash('sha256').update(canonicalJson({
+    caseId: event.case_id,
+    seq: event.seq,
+    ts: event.ts.toISOString(),
+    actor: event.actor,
+    action: event.action,
+    payload,
+    prevHash: event.prev_hash
+  })).digest('hex');
+}
+
+async function appendInTx(tx: Prisma.TransactionClient, input: CaseEventInput): Promise<CaseEvent> {
+  // Lock the case row so concurrent appends to one case are serialised
+  await tx.$queryRaw`SELECT id FROM cases WHERE id = ${input.case_id} FOR UPDATE`;
+
+  const last = await tx.caseEvent.findFirst({
+    where: { case_id: input.case_id },
+    orderBy: { seq: 'desc' },
+    select: { seq: true, hash: true }
+  });
+
+  // Redacted before hashing: the chain covers what is stored, and the stored
+  // payload never holds raw PII
+  const payload = input.payload_json === undefined ? null : await redactToVault(input.payload_json, 'trace');
+
+  const event = {
+    case_id: input.case_id,
+    seq: (last?.seq ?? 0) + 1,
+    ts: new Date(),
+    actor: input.actor,
+    action: input.action,
+    payload_json: payload,
+    prev_hash: last?.hash ?? null
+  };
+  const hash = hashCaseEvent(event);
+
+  const created = await tx.caseEvent.create({
+    data: {
+      ...event,
+      payload_json: payload ?? Prisma.JsonNull,
+      hash
+    }
+  });
+
+  await tx.case.update({
+    where: { id: input.case_id },
+    data: { event_head_hash: hash }
+  });
+
+  return created;
+}
+
+// The only way CaseEvents should be written. Pass `tx` to append inside a
+// caller's transaction.
+export async function appendCaseEvent(
+  input: CaseEventInput,
+  tx?: Prisma.TransactionClient
+): Promise<CaseEvent> {
+  if (tx) return appendInTx(tx, input);
+  return prisma.$transaction(t => appendInTx(t, input));
+}
+
+// Delete cases, their child cases and everything recorded under them,
+// events included. Events are append-only, so each case's purge is recorded
+// in case_purges first (with its event count and chain head); the trigger
+// only lets a case's events go once that record exists. Meant for test and
+// eval data, never for live cases.
+export async function purgeCases(caseIds: string[], actor: string, reason: string): Promise<number> {
+  const ids = new Set(caseIds);
+  let frontier = caseIds;
+  while (frontier.length > 0) {
+    const children = await prisma.case.findMany({
+      where: { parent_case_id: { in: frontier } },
+      select: { id: true }
+    });
+    frontier = children.map(c => c.id).filter(id => !ids.has(id));
+    frontier.forEach(id => ids.add(id));
+  }
+
+  const all = Array.from(ids);
+  if (all.length === 0) return 0;
+
+  return prisma.$transaction(async (tx) => {
+    const cases = await tx.case.findMany({
+      where: { id: { in: all } },
+      select: { id: true, event_head_hash: true, _count: { select: { events: true } } }
+    });
+
+    await tx.casePurge.createMany({
+      data: cases.map(c => ({
+        case_id: c.id,
+        event_count: c._count.events,
+        head_hash: c.event_head_hash,
+        actor,
+        reason
+      }))
+    });
+
+    await tx.bulkJobItem.deleteMany({ where: { job: { parent_case_id: { in: all } } } });
+    await tx.bulkJob.deleteMany({ where: { parent_case_id: { in: all } } });
+    await tx.approvalRequest.deleteMany({ where: { case_id: { in: all } } });
+    await tx.caseEvent.deleteMany({ where: { case_id: { in: all } } });
+    const { count } = await tx.case.deleteMany({ where: { id: { in: all } } });
+    return count;
+  });
+}
+
+// Walk a case's chain from the first event and report every break
+export async function verifyCaseChain(caseId: string): Promise<ChainReport | null> {
+  const caseRecord = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: { id: true, event_head_hash: true }
+  });
+  if (!caseRecord) return null;
+
+  const events = await prisma.caseEvent.findMany({
+    where: { case_id: caseId },
+    orderBy: { seq: 'asc' }
+  });
+
+  const breaks: ChainBreak[] = [];
+  let prevHash: string | null = null;
+
+  events.forEach((event, i) => {
+    if (event.seq !== i + 1) {
+      breaks.push({ seq: i + 1, eventId: event.id, reason: 'seq_gap' });
+    }
+
+    if (event.hash === null) {
+      breaks.push({ seq: event.seq, eventId: event.id, reason: 'unsealed' });
+      prevHash = null;
+      return;
+    }
+
+    if (event.prev_hash !== prevHash) {
+      breaks.push({ seq: event.seq, eventId: event.id, reason: 'prev_hash_mismatch' });
+    }
+    if (hashCaseEvent(event) !== event.hash) {
+      breaks.push({ seq: event.seq, eventId: event.id, reason: 'hash_mismatch' });
+    }
+
+    prevHash = event.hash;
+  });
+
+  // A missing tail leaves the chain itself intact; the case head catches it
+  const lastHash = events.length > 0 ? events[events.length - 1].hash : null;
+  if (caseRecord.event_head_hash !== null && caseRecord.event_head_hash !== lastHash) {
+    breaks.push({ seq: events.length, eventId: null, reason: 'head_mismatch' });
+  }
+
+  return {
+    caseId,
+    events: events.length,
+    valid: breaks.length === 0,
+    headHash: lastHash,
+    breaks
+  };
+}
+
+// Chain a case's events written before hashing existed. Only runs when none
+// of the case's events are hashed yet, so it can never rewrite a chain.
+export async function sealLegacyEvents(caseId: string): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM cases WHERE id = ${caseId} FOR UPDATE`;
+
+    const events = await tx.caseEvent.findMany({
+      where: { case_id: caseId },
+      orderBy: { seq: 'asc' }
+    });
+    if (events.length === 0 || events.some(e => e.hash !== null)) return 0;
+
+    let prevHash: string | null = null;
+    for (const event of events) {
+      const hash = hashCaseEvent({ ...event, prev_hash: prevHash });
+      await tx.caseEvent.update({
+        where: { id: event.id },
+        data: { prev_hash: prevHash, hash }
+      });
+      prevHash = hash;
+    }
+
+    await tx.case.update({
+      where: { id: caseId },
+      data: { event_head_hash: prevHash }
+    });
+
+    return events.length;
+  });
+}
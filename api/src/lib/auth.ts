@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { findActiveKey, touchApiKey, isActive, type ApiKeyScope } from './apiKeys.js';
+
+const prisma = new PrismaClient();
+
+export const ROLES = ['viewer', 'analyst', 'supervisor', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  'cases:read',
+  'cases:write',
+  'actions:write',
+  'approvals:decide',
+  'triage:run',
+  'alerts:write',
+  'rules:read',
+  'rules:write',
+  'analysts:manage',
+  'keys:manage',
+  'ingest:write',
+  'insights:read',
+  'pii:detokenize'
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const ANALYST_PERMISSIONS: Permission[] = [
+  'cases:read',
+  'cases:write',
+  'actions:write',
+  'approvals:decide',
+  'triage:run',
+  'alerts:write',
+  'rules:read',
+  'ingest:write',
+  'insights:read'
+];
+
+// Supervisors hold the analyst permissions plus detokenization; what else only
+// they may do (closing disputes, unfreezing over open fraud cases) is checked
+// where it happens.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['cases:read', 'insights:read'],
+  analyst: ANALYST_PERMISSIONS,
+  supervisor: [...ANALYST_PERMISSIONS, 'pii:detokenize'],
+  admin: [...PERMISSIONS]
+};
+
+// API key scope a permission falls under
+const PERMISSION_SCOPES: Record<Permission, ApiKeyScope> = {
+  'cases:read': 'cases:read',
+  'rules:read': 'cases:read',
+  'cases:write': 'actions:write',
+  'actions:write': 'actions:write',
+  'approvals:decide': 'actions:write',
+  'triage:run': 'actions:write',
+  'alerts:write': 'actions:write',
+  'rules:write': 'admin',
+  'analysts:manage': 'admin',
+  'keys:manage': 'admin',
+  'ingest:write': 'ingest:write',
+  'insights:read': 'insights:read',
+  'pii:detokenize': 'actions:write'
+};
+
+// Who a request acts as: an analyst, or an integration key (no role) that
+// only holds the permissions its scopes grant
+export interface Principal {
+  id: string;
+  name: string;
+  role: Role | null;
+  via: 'api_key' | 'session';
+  // Scopes of the key used, directly or to get the session token
+  scopes: ApiKeyScope[];
+  keyId: string;
+}
+
+const AUTH_TOKEN_SECRET = process.env.AUTH_TOKEN_SECRET || 'dev_auth_token_secret';
+export const AUTH_TOKEN_TTL_SECONDS = parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || String(8 * 60 * 60));
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+// Both the key's scopes and, for analysts, the role must allow it
+export function can(principal: Principal, permission: Permission): boolean {
+  if (!principal.scopes.includes(PERMISSION_SCOPES[permission])) return false;
+  return principal.role === null || hasPermission(principal.role, permission);
+}
+
+export function isSupervisor(principal: Principal): boolean {
+  return principal.role === 'supervisor' || principal.role === 'admin';
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', AUTH_TOKEN_SECRET).update(payload).digest('base64url');
+}
+
+interface SessionClaims {
+  sub: string;
+  // Key the token was issued from; it ends with that key
+  kid: string;
+  exp: number;
+}
+
+// Session token: base64url(JSON claims) + '.' + HMAC of that
+export function issueSessionToken(principal: Principal): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + AUTH_TOKEN_TTL_SECONDS * 1000);
+  const claims: SessionClaims = {
+    sub: principal.id,
+    kid: principal.keyId,
+    exp: Math.floor(expiresAt.getTime() / 1000)
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+  return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+// Claims of a session token, or null if forged or expired
+export function verifySessionToken(token: string): SessionClaims | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof claims.sub !== 'string' || typeof claims.kid !== 'string' || typeof claims.exp !== 'number') {
+      return null;
+    }
+    if (claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// Resolve an API key or session token. Roles and key state are read on every
+// request, so role changes and revocations apply to tokens already issued.
+export async function authenticate(credentials: {
+  apiKey?: string;
+  bearerToken?: string;
+}): Promise<Principal | null> {
+  if (credentials.bearerToken) {
+    const claims = verifySessionToken(credentials.bearerToken);
+    if (!claims) return null;
+
+    const key = await prisma.apiKey.findUnique({
+      where: { id: claims.kid },
+      include: { analyst: true }
+    });
+    if (!key || !isActive(key) || key.analyst_id !== claims.sub || !key.analyst?.active) return null;
+
+    return {
+      id: key.analyst.id,
+      name: key.analyst.name,
+      role: key.analyst.role as Role,
+      via: 'session',
+      scopes: key.scopes as ApiKeyScope[],
+      keyId: key.id
+    };
+  }
+
+  if (credentials.apiKey) {
+    const key = await findActiveKey(credentials.apiKey);
+    if (!key) return null;
+    if (key.analyst && !key.analyst.active) return null;
+
+    touchApiKey(key.id);
+
+    return key.analyst
+      ? {
+          id: key.analyst.id,
+          name: key.analyst.name,
+          role: key.analyst.role as Role,
+          via: 'api_key',
+          scopes: key.scopes as ApiKeyScope[],
+          keyId: key.id
+        }
+      : {
+          id: `key:${key.id}`,
+          name: key.name,
+          role: null,
+          via: 'api_key',
+          scopes: key.scopes as ApiKeyScope[],
+          keyId: key.id
+        };
+  }
+
+  return null;
+}
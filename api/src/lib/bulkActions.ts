@@ -0,0 +1,222 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Job } from 'bullmq';
+import { bulkActionsQueue, type BulkActionJobData } from './queue.js';
+import { appendCaseEvent } from './auditLog.js';
+import { freezeCard, markFalsePositive, type ActionOutcome } from './actionHandlers.js';
+import { logger } from './logger.js';
+import { redactToVault } from './redactor.js';
+
+const prisma = new PrismaClient();
+
+// Upper bound on items per bulk job
+export const BULK_MAX_ITEMS = parseInt(process.env.BULK_MAX_ITEMS || '500');
+
+export type BulkAction = 'mark_false_positive' | 'freeze_card';
+
+export interface BulkTarget {
+  type: 'alert' | 'card' | 'customer';
+  id: string;
+  // Outcome known up front (e.g. customer without cards); not processed
+  status?: string;
+}
+
+export class BulkLimitError extends Error {
+  constructor(public count: number) {
+    super(`Bulk job would touch ${count} items, the limit is ${BULK_MAX_ITEMS}`);
+    this.name = 'BulkLimitError';
+  }
+}
+
+// Record the job, its items and its parent case, then queue it
+export async function createBulkJob(params: {
+  action: BulkAction;
+  requestedBy: string;
+  targets: BulkTarget[];
+  options: Prisma.InputJsonObject;
+}) {
+  if (params.targets.length > BULK_MAX_ITEMS) throw new BulkLimitError(params.targets.length);
+
+  const parentCase = await prisma.case.create({
+    data: {
+      type: 'bulk_action',
+      status: 'open',
+      reason_code: params.action
+    }
+  });
+
+  const skipped = params.targets.filter(t => t.status).length;
+
+  const bulkJob = await prisma.bulkJob.create({
+    data: {
+      action: params.action,
+      requested_by: params.requestedBy,
+      params_json: params.options,
+      total: params.targets.length,
+      failed: skipped,
+      parent_case_id: parentCase.id,
+      items: {
+        create: params.targets.map((target, seq) => ({
+          seq,
+          target_type: target.type,
+          target_id: target.id,
+          status: target.status ?? 'pending',
+          ok: target.status ? false : null,
+          processed_at: target.status ? new Date() : null
+        }))
+      }
+    }
+  });
+
+  await appendCaseEvent({
+    case_id: parentCase.id,
+    actor: params.requestedBy,
+    action: 'bulk_requested',
+    payload_json: {
+      bulkJobId: bulkJob.id,
+      action: params.action,
+      total: params.targets.length,
+      skipped,
+      options: params.options
+    }
+  });
+
+  await bulkActionsQueue.add(params.action, { bulkJobId: bulkJob.id }, { jobId: bulkJob.id });
+
+  return bulkJob;
+}
+
+// Response body for a job that has been queued
+export function queuedResponse(bulkJob: { id: string; action: string; total: number; failed: number; parent_case_id: string }) {
+  return {
+    status: 'QUEUED',
+    jobId: bulkJob.id,
+    action: bulkJob.action,
+    parentCaseId: bulkJob.parent_case_id,
+    total: bulkJob.total,
+    skipped: bulkJob.failed,
+    message: `Bulk ${bulkJob.action} queued for ${bulkJob.total} item(s)`,
+    timestamp: new Date().toISOString()
+  };
+}
+
+function runItem(
+  action: BulkAction,
+  targetId: string,
+  options: Record<string, any>,
+  parentCaseId: string,
+  requestedBy: string
+): Promise<ActionOutcome> {
+  switch (action) {
+    case 'mark_false_positive':
+      return markFalsePositive({ alertId: targetId, notes: options.notes, parentCaseId, actor: requestedBy });
+    case 'freeze_card':
+      return freezeCard({
+        cardId: targetId,
+        // Verified when the job was requested; codes expire long before an
+        // approval might, so they are never checked again here
+        otpChallengeId: options.otpChallengeIds?.[targetId] ?? null,
+        reason: options.reason,
+        parentCaseId,
+        actor: requestedBy,
+        // An approved bulk job covers the per-card approval, not the OTP
+        approval: options.approvalId
+          ? { approvalId: options.approvalId, approvedBy: options.approvedBy }
+          : undefined
+      });
+  }
+}
+
+// BullMQ processor: run every pending item through the single-item handler,
+// recording each outcome as it completes
+export async function processBulkJob(job: Job<BulkActionJobData>): Promise<void> {
+  const bulkJob = await prisma.bulkJob.update({
+    where: { id: job.data.bulkJobId },
+    data: { status: 'running', started_at: new Date() }
+  });
+
+  const options = (bulkJob.params_json ?? {}) as Record<string, any>;
+  const pending = await prisma.bulkJobItem.findMany({
+    where: { job_id: bulkJob.id, status: 'pending' },
+    orderBy: { seq: 'asc' }
+  });
+
+  for (const item of pending) {
+    let outcome: ActionOutcome;
+    try {
+      outcome = await runItem(
+        bulkJob.action as BulkAction,
+        item.target_id,
+        options,
+        bulkJob.parent_case_id,
+        bulkJob.requested_by
+      );
+    } catch (error) {
+      logger.error({ err: error }, `Bulk job ${bulkJob.id} item ${item.seq} failed`);
+      outcome = {
+        ok: false,
+        httpStatus: 500,
+        body: { status: 'ERROR', error: error instanceof Error ? error.message : 'Unknown error' }
+      };
+    }
+
+    const result = await redactToVault(outcome.body, 'response');
+    await prisma.$transaction([
+      prisma.bulkJobItem.update({
+        where: { job_id_seq: { job_id: bulkJob.id, seq: item.seq } },
+        data: {
+          status: outcome.body.status ?? (outcome.ok ? 'OK' : 'FAILED'),
+          ok: outcome.ok,
+          result_json: result,
+          case_id: outcome.body.caseId ?? null,
+          processed_at: new Date()
+        }
+      }),
+      prisma.bulkJob.update({
+        where: { id: bulkJob.id },
+        data: outcome.ok ? { succeeded: { increment: 1 } } : { failed: { increment: 1 } }
+      })
+    ]);
+
+    await job.updateProgress(Math.round(((item.seq + 1) / bulkJob.total) * 100));
+  }
+
+  const finished = await prisma.bulkJob.update({
+    where: { id: bulkJob.id },
+    data: { status: 'completed', finished_at: new Date() }
+  });
+
+  await prisma.case.update({
+    where: { id: bulkJob.parent_case_id },
+    data: { status: 'completed', closed_at: new Date() }
+  });
+
+  const children = await prisma.case.count({ where: { parent_case_id: bulkJob.parent_case_id } });
+
+  await appendCaseEvent({
+    case_id: bulkJob.parent_case_id,
+    actor: 'system',
+    action: 'bulk_completed',
+    payload_json: {
+      bulkJobId: bulkJob.id,
+      total: finished.total,
+      succeeded: finished.succeeded,
+      failed: finished.failed,
+      childCases: children
+    }
+  });
+}
+
+// Mark a job failed once BullMQ gives up on it
+export async function failBulkJob(bulkJobId: string, reason: string): Promise<void> {
+  const bulkJob = await prisma.bulkJob.update({
+    where: { id: bulkJobId },
+    data: { status: 'failed', finished_at: new Date() }
+  });
+
+  await appendCaseEvent({
+    case_id: bulkJob.parent_case_id,
+    actor: 'system',
+    action: 'bulk_failed',
+    payload_json: { bulkJobId, reason }
+  });
+}
@@ -0,0 +1,79 @@
+// Dispute and fraud case lifecycle:
+//   open → investigating → pending_merchant → won | lost | withdrawn
+// Each transition lists the roles allowed to make it.
+
+export const CASE_STATUSES = ['open', 'investigating', 'pending_merchant', 'won', 'lost', 'withdrawn'] as const;
+export type CaseStatus = typeof CASE_STATUSES[number];
+
+export const CASE_ROLES = ['analyst', 'supervisor'] as const;
+export type CaseRole = typeof CASE_ROLES[number];
+
+// Case types that follow the lifecycle; the rest are closed audit records
+export const LIFECYCLE_CASE_TYPES = ['dispute', 'fraud'];
+
+// Statuses in which a case still needs work
+export const OPEN_CASE_STATUSES: CaseStatus[] = ['open', 'investigating', 'pending_merchant'];
+
+const TRANSITIONS: Record<CaseStatus, Partial<Record<CaseStatus, CaseRole[]>>> = {
+  open: {
+    investigating: ['analyst', 'supervisor'],
+    withdrawn: ['analyst', 'supervisor']
+  },
+  investigating: {
+    pending_merchant: ['analyst', 'supervisor'],
+    won: ['supervisor'],
+    lost: ['supervisor'],
+    withdrawn: ['analyst', 'supervisor']
+  },
+  pending_merchant: {
+    investigating: ['analyst', 'supervisor'],
+    won: ['supervisor'],
+    lost: ['supervisor'],
+    withdrawn: ['supervisor']
+  },
+  won: {},
+  lost: {},
+  withdrawn: {}
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: string, public to: string, public role: string, public allowed: boolean) {
+    super(allowed
+      ? `Role ${role} may not move a case from ${from} to ${to}`
+      : `Cannot move a case from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export function allowedTransitions(from: string, role: CaseRole): CaseStatus[] {
+  const targets = TRANSITIONS[from as CaseStatus] ?? {};
+  return (Object.keys(targets) as CaseStatus[]).filter(to => targets[to]!.includes(role));
+}
+
+// Throws InvalidTransitionError unless `role` may move a case from `from` to `to`
+export function assertTransition(from: string, to: CaseStatus, role: CaseRole): void {
+  const roles = TRANSITIONS[from as CaseStatus]?.[to];
+  if (!roles) throw new InvalidTransitionError(from, to, role, false);
+  if (!roles.includes(role)) throw new InvalidTransitionError(from, to, role, true);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days to resolve a case, by card-network reason code category
+// (10.x fraud, 11.x authorisation, 12.x processing errors, 13.x consumer disputes)
+const SLA_DAYS_BY_CATEGORY: Record<string, number> = {
+  '10': 30,
+  '11': 30,
+  '12': 45,
+  '13': 45
+};
+const DEFAULT_SLA_DAYS = 30;
+
+export function slaDays(reasonCode: string | null | undefined): number {
+  const category = reasonCode?.split('.')[0];
+  return (category && SLA_DAYS_BY_CATEGORY[category]) || DEFAULT_SLA_DAYS;
+}
+
+export function slaDeadline(reasonCode: string | null | undefined, openedAt: Date): Date {
+  return new Date(openedAt.getTime() + slaDays(reasonCode) * DAY_MS);
+}
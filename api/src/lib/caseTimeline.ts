@@ -0,0 +1,113 @@
+import { PrismaClient, type Case } from '@prisma/client';
+import { z } from 'zod';
+
+const prisma = new PrismaClient();
+
+export interface TimelineEntry {
+  id: string;
+  ts: Date;
+  kind: 'case_event' | 'triage_run';
+  actor: string;
+  action: string;
+  payload: unknown;
+}
+
+// Keyset position in the merged (ts, id) order
+function after(cursor: { ts: Date; id: string } | null, tsField: string) {
+  if (!cursor) return {};
+  return {
+    OR: [
+      { [tsField]: { gt: cursor.ts } },
+      { [tsField]: cursor.ts, id: { gt: cursor.id } }
+    ]
+  };
+}
+
+// Keyset cursor as returned in nextCursor: `<ISO timestamp>_<id>`. Shared
+// with the case list, which pages the same way.
+export const KeysetCursorSchema = z.string().transform((cursor, ctx) => {
+  const separator = cursor.indexOf('_');
+  const ts = cursor.slice(0, separator);
+  const id = cursor.slice(separator + 1);
+
+  if (separator < 1 || !id || !z.string().datetime().safeParse(ts).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor, expected <ISO timestamp>_<id>' });
+    return z.NEVER;
+  }
+  return { ts: new Date(ts), id };
+});
+
+// One chronological view of a case: its own events plus the triage runs on
+// alerts for the same transaction (or the same customer when the case has no
+// transaction). Each source is read in (ts, id) order from the cursor and
+// merged, so a page never needs more than limit + 1 rows per source.
+export async function loadCaseTimeline(
+  caseRecord: Pick<Case, 'id' | 'customer_id' | 'txn_id'>,
+  cursor: { ts: Date; id: string } | null,
+  limit: number
+) {
+  // Cases without a customer (bulk actions) have no triage history of their own
+  const alertScope = caseRecord.txn_id
+    ? { suspect_txn_id: caseRecord.txn_id }
+    : caseRecord.customer_id ? { customer_id: caseRecord.customer_id } : null;
+
+  const [events, runs] = await Promise.all([
+    prisma.caseEvent.findMany({
+      where: { case_id: caseRecord.id, ...after(cursor, 'ts') },
+      orderBy: [{ ts: 'asc' }, { id: 'asc' }],
+      take: limit + 1
+    }),
+    alertScope === null ? [] : prisma.triageRun.findMany({
+      where: { alert: alertScope, ...after(cursor, 'started_at') },
+      orderBy: [{ started_at: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
+      include: {
+        traces: {
+          select: { seq: true, step: true, ok: true, duration_ms: true },
+          orderBy: { seq: 'asc' }
+        }
+      }
+    })
+  ]);
+
+  const entries: TimelineEntry[] = [
+    ...events.map(e => ({
+      id: e.id,
+      ts: e.ts,
+      kind: 'case_event' as const,
+      actor: e.actor,
+      action: e.action,
+      payload: e.payload_json
+    })),
+    ...runs.map(r => ({
+      id: r.id,
+      ts: r.started_at,
+      kind: 'triage_run' as const,
+      actor: r.actor ?? (r.trigger === 'auto' ? 'system' : 'analyst'),
+      action: r.ended_at ? 'triage_completed' : 'triage_started',
+      payload: {
+        alertId: r.alert_id,
+        risk: r.risk,
+        score: r.score,
+        recommendation: r.recommendation,
+        reasons: r.reasons,
+        trigger: r.trigger,
+        fallbackUsed: r.fallback_used,
+        latencyMs: r.latency_ms,
+        rulesetVersion: r.ruleset_version,
+        traces: r.traces
+      }
+    }))
+  ].sort((a, b) => a.ts.getTime() - b.ts.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const hasMore = entries.length > limit;
+  const items = entries.slice(0, limit);
+
+  let nextCursor = null;
+  if (hasMore) {
+    const last = items[items.length - 1];
+    nextCursor = `${last.ts.toISOString()}_${last.id}`;
+  }
+
+  return { items, nextCursor, hasMore };
+}
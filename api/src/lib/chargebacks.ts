@@ -0,0 +1,51 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chargebacks newer than this count as recent
+export const RECENT_CHARGEBACK_DAYS = 90;
+
+// Disputes + chargebacks within this window that mark a frequent disputer
+export const FREQUENT_DISPUTE_WINDOW_DAYS = 180;
+export const FREQUENT_DISPUTE_THRESHOLD = 3;
+
+export async function summarizeChargebacks(customerId: string, at: Date = new Date()) {
+  const chargebacks = await prisma.chargeback.findMany({
+    where: { customer_id: customerId, created_at: { lte: at } },
+    orderBy: { created_at: 'desc' },
+    select: { amount_cents: true, reason: true, status: true, created_at: true }
+  });
+
+  const recentSince = new Date(at.getTime() - RECENT_CHARGEBACK_DAYS * DAY_MS);
+  const recent = chargebacks.filter(cb => cb.created_at >= recentSince);
+
+  return {
+    total: chargebacks.length,
+    recent: recent.length,
+    totalAmountCents: chargebacks.reduce((sum, cb) => sum + cb.amount_cents, 0),
+    reasons: Array.from(new Set(chargebacks.map(cb => cb.reason))),
+    lastChargebackAt: chargebacks[0]?.created_at.toISOString() ?? null
+  };
+}
+
+// Friendly-fraud indicator: how often this customer has disputed lately
+export async function countRecentDisputes(customerId: string, at: Date = new Date()) {
+  const since = new Date(at.getTime() - FREQUENT_DISPUTE_WINDOW_DAYS * DAY_MS);
+
+  const [chargebacks, disputes] = await Promise.all([
+    prisma.chargeback.count({
+      where: { customer_id: customerId, created_at: { gte: since } }
+    }),
+    prisma.case.count({
+      where: { customer_id: customerId, type: 'dispute', created_at: { gte: since } }
+    })
+  ]);
+
+  return {
+    chargebacks,
+    disputes,
+    frequentDisputer: chargebacks + disputes >= FREQUENT_DISPUTE_THRESHOLD
+  };
+}
@@ -0,0 +1,81 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// A device first seen less than this long before a transaction counts as recent
+export const RECENT_DEVICE_DAYS = 7;
+
+export interface DeviceSighting {
+  customer_id: string;
+  device_id?: string | null;
+  ts: Date;
+}
+
+// Create or widen the first_seen/last_seen window of every device in a batch.
+// Sightings are collapsed per (customer, device) first so a batch costs a
+// fixed number of writes per device, regardless of how many transactions it
+// has. Every write is conditional, so concurrent batches for one device
+// neither collide on create nor narrow each other's window.
+export async function recordDeviceSightings(sightings: DeviceSighting[]): Promise<number> {
+  const windows = new Map<string, { customer_id: string; device_id: string; first: Date; last: Date }>();
+
+  for (const s of sightings) {
+    if (!s.device_id) continue;
+    const key = `${s.customer_id}:${s.device_id}`;
+    const existing = windows.get(key);
+
+    if (!existing) {
+      windows.set(key, { customer_id: s.customer_id, device_id: s.device_id, first: s.ts, last: s.ts });
+    } else {
+      if (s.ts < existing.first) existing.first = s.ts;
+      if (s.ts > existing.last) existing.last = s.ts;
+    }
+  }
+
+  for (const w of windows.values()) {
+    const device = { customer_id: w.customer_id, device_id: w.device_id };
+
+    await prisma.device.upsert({
+      where: { customer_id_device_id: device },
+      create: { ...device, first_seen: w.first, last_seen: w.last },
+      update: {}
+    });
+
+    await prisma.device.updateMany({
+      where: { ...device, first_seen: { gt: w.first } },
+      data: { first_seen: w.first }
+    });
+    await prisma.device.updateMany({
+      where: { ...device, last_seen: { lt: w.last } },
+      data: { last_seen: w.last }
+    });
+  }
+
+  return windows.size;
+}
+
+// Summarise how established a device was at the time of a transaction
+export async function assessDevice(customerId: string, deviceId: string | null | undefined, at: Date) {
+  if (!deviceId) {
+    return { deviceId: null, known: false, isNew: null, trusted: null, ageDays: null };
+  }
+
+  const device = await prisma.device.findUnique({
+    where: { customer_id_device_id: { customer_id: customerId, device_id: deviceId } }
+  });
+
+  // No record, or the suspect transaction is the first sighting
+  if (!device || device.first_seen >= at) {
+    return { deviceId, known: !!device, isNew: true, trusted: device?.trusted ?? false, ageDays: 0 };
+  }
+
+  const ageDays = (at.getTime() - device.first_seen.getTime()) / (24 * 60 * 60 * 1000);
+
+  return {
+    deviceId,
+    known: true,
+    isNew: false,
+    trusted: device.trusted,
+    ageDays: Math.round(ageDays * 10) / 10
+  };
+}
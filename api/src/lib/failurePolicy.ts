@@ -0,0 +1,56 @@
+import { degradedDecisions } from './metrics.js';
+import { logger } from './logger.js';
+
+// What a Redis-backed guard does when Redis is unreachable: 'open' lets the
+// request through unguarded, 'closed' refuses it with a 503. Set per route
+// group with FAILURE_MODE_<GROUP>=open|closed. Sensitive writes default to
+// closed, so knocking Redis over cannot lift their limits.
+export type FailureMode = 'open' | 'closed';
+export type GuardedStore = 'rate_limit' | 'idempotency' | 'otp';
+
+export const ROUTE_GROUPS = ['read', 'ingest', 'action'] as const;
+export type RouteGroup = typeof ROUTE_GROUPS[number];
+
+const DEFAULT_FAILURE_MODES: Record<RouteGroup, FailureMode> = {
+  read: 'open',
+  ingest: 'open',
+  action: 'closed'
+};
+
+const FAILURE_MODES = Object.fromEntries(
+  ROUTE_GROUPS.map(group => {
+    const configured = process.env[`FAILURE_MODE_${group.toUpperCase()}`];
+    return [group, configured === 'open' || configured === 'closed' ? configured : DEFAULT_FAILURE_MODES[group]];
+  })
+) as Record<RouteGroup, FailureMode>;
+
+// Suggested wait before retrying a request refused for a store outage
+const STORE_RETRY_AFTER_SECONDS = 5;
+
+export class StoreUnavailableError extends Error {
+  retryAfter = STORE_RETRY_AFTER_SECONDS;
+
+  constructor(public store: GuardedStore, cause: unknown) {
+    super(`${store} store unavailable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'StoreUnavailableError';
+  }
+}
+
+export function failureModeFor(group: RouteGroup): FailureMode {
+  return FAILURE_MODES[group];
+}
+
+// Every decision taken without the store is logged and counted
+export function recordDegraded(store: GuardedStore, group: RouteGroup, mode: FailureMode, error: unknown): void {
+  degradedDecisions.inc({ store, route: group, mode });
+  logger.error({ err: error }, `Degraded ${store} decision on ${group} routes, failing ${mode}`);
+}
+
+export function storeUnavailableBody(store: GuardedStore) {
+  return {
+    error: 'Service temporarily unavailable, try again shortly',
+    status: 'STORE_UNAVAILABLE',
+    store,
+    retryAfter: STORE_RETRY_AFTER_SECONDS
+  };
+}
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { redis } from './redis.js';
+import { redactToVault } from './redactor.js';
+
+// Idempotency records live in Redis so a retry landing on another instance,
+// or after a restart, still finds them. A record starts as an in-progress
+// lock owned by one request and becomes the stored response once it is sent.
+const IDEMPOTENCY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '3600');
+// An in-progress lock outlives its request by at most this long if the
+// instance holding it dies
+const IDEMPOTENCY_LOCK_SECONDS = parseInt(process.env.IDEMPOTENCY_LOCK_SECONDS || '30');
+
+const recordKey = (scope: string, key: string) => `idempotency:${scope}:${key}`;
+
+interface InProgressRecord {
+  state: 'in_progress';
+  token: string;
+  fingerprint: string;
+}
+
+interface CompletedRecord {
+  state: 'complete';
+  token: string;
+  fingerprint: string;
+  status: number;
+  body: unknown;
+  completedAt: string;
+}
+
+type IdempotencyRecord = InProgressRecord | CompletedRecord;
+
+export type IdempotencyClaim =
+  // This request owns the key and must complete or release it
+  | { status: 'acquired'; token: string }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' }
+  | { status: 'replay'; httpStatus: number; body: unknown };
+
+// Only the request holding the lock may write its result or release it
+const COMPLETE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or cjson.decode(current).token ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1`;
+
+const RELEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or cjson.decode(current).token ~= ARGV[1] then return 0 end
+return redis.call('DEL', KEYS[1])`;
+
+// Key order does not change a payload's fingerprint
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(k => [k, canonicalize((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+// What a key is bound to: the route and the request body
+export function fingerprintRequest(method: string, path: string, body: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${method} ${path}\n${JSON.stringify(canonicalize(body ?? null))}`)
+    .digest('hex');
+}
+
+// Take the key for this request, or report what already holds it
+export async function claimIdempotencyKey(
+  scope: string,
+  key: string,
+  fingerprint: string
+): Promise<IdempotencyClaim> {
+  const token = crypto.randomUUID();
+  const lock: InProgressRecord = { state: 'in_progress', token, fingerprint };
+
+  const acquired = await redis.set(
+    recordKey(scope, key),
+    JSON.stringify(lock),
+    'EX',
+    IDEMPOTENCY_LOCK_SECONDS,
+    'NX'
+  );
+  if (acquired === 'OK') return { status: 'acquired', token };
+
+  const raw = await redis.get(recordKey(scope, key));
+  // Released or expired in between; the caller may try again
+  if (!raw) return { status: 'in_progress' };
+
+  const record = JSON.parse(raw) as IdempotencyRecord;
+  if (record.fingerprint !== fingerprint) return { status: 'mismatch' };
+  if (record.state === 'in_progress') return { status: 'in_progress' };
+
+  return { status: 'replay', httpStatus: record.status, body: record.body };
+}
+
+// Store the response for replay; false if the lock was lost meanwhile
+export async function completeIdempotencyKey(
+  scope: string,
+  key: string,
+  token: string,
+  fingerprint: string,
+  response: { status: number; body: unknown }
+): Promise<boolean> {
+  const record: CompletedRecord = {
+    state: 'complete',
+    token,
+    fingerprint,
+    status: response.status,
+    // Captured ahead of the response redaction, so redact before it is stored
+    body: await redactToVault(response.body, 'response'),
+    completedAt: new Date().toISOString()
+  };
+
+  const stored = await redis.eval(
+    COMPLETE_SCRIPT,
+    1,
+    recordKey(scope, key),
+    token,
+    JSON.stringify(record),
+    IDEMPOTENCY_TTL_SECONDS
+  );
+  return stored === 1;
+}
+
+// Give the key up without a result, so a retry runs the request afresh
+export async function releaseIdempotencyKey(scope: string, key: string, token: string): Promise<void> {
+  await redis.eval(RELEASE_SCRIPT, 1, recordKey(scope, key), token);
+}
@@ -0,0 +1,76 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface KbHit {
+  id: string;
+  title: string;
+  anchor: string;
+  score: number;
+  snippet: string;
+}
+
+export interface KbCitation extends KbHit {
+  // Topics (reason codes, merchant) this document was retrieved for
+  reasons: string[];
+}
+
+// Turn free text or a reason code into an OR-ed tsquery. Only [a-z0-9]
+// tokens survive, so the result is always valid to_tsquery syntax.
+export function toTsQuery(text: string): string | null {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g)?.filter(t => t.length > 1) ?? [];
+  return tokens.length > 0 ? Array.from(new Set(tokens)).join(' | ') : null;
+}
+
+// Postgres full-text search over KB titles and content, ranked by ts_rank
+export async function searchKb(text: string, limit = 3): Promise<KbHit[]> {
+  const query = toTsQuery(text);
+  if (!query) return [];
+
+  const rows = await prisma.$queryRaw<KbHit[]>`
+    SELECT d.id, d.title, d.anchor,
+      ts_rank(to_tsvector('english', d.title || ' ' || d.content_text), q.query) AS score,
+      ts_headline('english', d.content_text, q.query,
+        'StartSel=**, StopSel=**, MinWords=8, MaxWords=25, MaxFragments=2') AS snippet
+    FROM kb_docs d, to_tsquery('english', ${query}) AS q(query)
+    WHERE to_tsvector('english', d.title || ' ' || d.content_text) @@ q.query
+    ORDER BY score DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(row => ({ ...row, score: Number(row.score) }));
+}
+
+// Search once per topic and merge: a document's score is the sum of its
+// per-topic ranks, and it remembers which topics retrieved it.
+export async function searchKbForTopics(topics: string[], limit = 3): Promise<KbCitation[]> {
+  const unique = Array.from(new Set(topics.filter(Boolean)));
+  const results = await Promise.all(unique.map(topic => searchKb(topic.replace(/_/g, ' '), limit)));
+
+  return mergeCitations(
+    results.map((hits, i) => hits.map(hit => ({ ...hit, reasons: [unique[i]] }))),
+    limit
+  );
+}
+
+// Merge citation lists retrieved for different topics, summing the scores
+// and reasons of documents that appear in more than one list.
+export function mergeCitations(lists: KbCitation[][], limit = 3): KbCitation[] {
+  const merged = new Map<string, KbCitation>();
+  for (const citations of lists) {
+    for (const citation of citations) {
+      const existing = merged.get(citation.id);
+      if (existing) {
+        existing.score += citation.score;
+        existing.reasons.push(...citation.reasons.filter(r => !existing.reasons.includes(r)));
+      } else {
+        merged.set(citation.id, { ...citation, reasons: [...citation.reasons] });
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+    .map(c => ({ ...c, score: Math.round(c.score * 1000) / 1000 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
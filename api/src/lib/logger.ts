@@ -0,0 +1,51 @@
+import pino from 'pino';
+import { redactObject, redactPII } from './redactor.js';
+
+// Structured JSON logs (ADR-010). Every line passes through the redactor:
+// fields by their field policy, messages and error text by the detectors, so
+// a PAN in an exception message never reaches the log pipeline.
+
+function redactError(err: unknown) {
+  if (!(err instanceof Error)) return redactObject(err, { boundary: 'log' }).redacted;
+  return redactObject(pino.stdSerializers.err(err), { boundary: 'log' }).redacted;
+}
+
+// Merge objects keep their `err` for the serializer; Errors lose their
+// message and stack to a plain object walk
+function redactArg(arg: unknown): unknown {
+  if (typeof arg === 'string') return redactPII(arg).redacted;
+  if (arg instanceof Error || !arg || typeof arg !== 'object') return arg;
+
+  const { err, ...fields } = arg as Record<string, unknown>;
+  const redacted = redactObject(fields, { boundary: 'log' }).redacted;
+  return err === undefined ? redacted : { ...redacted, err };
+}
+
+// A logger writing to `destination` instead of stdout (the eval suite reads
+// its output back)
+export function createLogger(destination?: pino.DestinationStream) {
+  const options: pino.LoggerOptions = {
+    level: process.env.LOG_LEVEL || 'info',
+    base: { service: process.env.LOG_SERVICE || 'api' },
+    timestamp: () => `,"ts":"${new Date().toISOString()}"`,
+    formatters: {
+      level: label => ({ level: label })
+    },
+    serializers: {
+      err: redactError
+    },
+    hooks: {
+      logMethod(args, method) {
+        return method.apply(this, args.map(redactArg) as Parameters<typeof method>);
+      }
+    }
+  };
+
+  if (destination) return pino(options, destination);
+  if (process.env.LOG_PRETTY === 'true') {
+    return pino({ ...options, transport: { target: 'pino-pretty', options: { translateTime: 'SYS:standard' } } });
+  }
+  return pino(options);
+}
+
+export const logger = createLogger();
@@ -16,7 +16,8 @@ export const httpRequestDuration = new client.Histogram({
 export const rateLimitBlocks = new client.Counter({
   name: 'rate_limit_block_total',
   help: 'Total number of rate limit blocks',
-  labelNames: ['client']
+  // Not the client itself: one series per key or IP would grow without bound
+  labelNames: ['client_type', 'policy']
 });
 
 export const agentLatency = new client.Histogram({
@@ -32,8 +33,29 @@ export const toolCallsTotal = new client.Counter({
   labelNames: ['tool', 'ok']
 });
 
+export const ingestAlertsTotal = new client.Counter({
+  name: 'ingest_alerts_total',
+  help: 'Alerts raised by transaction scoring at ingest',
+  labelNames: ['risk']
+});
+
+export const idempotencyOutcomes = new client.Counter({
+  name: 'idempotency_outcome_total',
+  help: 'Requests carrying an Idempotency-Key, by how the key was resolved',
+  labelNames: ['outcome']
+});
+
+export const degradedDecisions = new client.Counter({
+  name: 'degraded_decision_total',
+  help: 'Guard decisions made while their Redis store was unavailable',
+  labelNames: ['store', 'route', 'mode']
+});
+
 // Register all metrics
 register.registerMetric(httpRequestDuration);
 register.registerMetric(rateLimitBlocks);
 register.registerMetric(agentLatency);
-register.registerMetric(toolCallsTotal);
\ No newline at end of file
+register.registerMetric(toolCallsTotal);
+register.registerMetric(ingestAlertsTotal);
+register.registerMetric(idempotencyOutcomes);
+register.registerMetric(degradedDecisions);
\ No newline at end of file
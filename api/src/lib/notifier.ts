@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger.js';
+
+export type NotifyChannel = 'sms' | 'email' | 'phone';
+
+export interface CustomerMessage {
+  channel: NotifyChannel;
+  recipient: string;
+  template: string;
+  text: string;
+}
+
+export interface NotifyResult {
+  messageId: string;
+  delivered: boolean;
+}
+
+// Sends outreach messages to customers. Real providers (SMS gateway, email,
+// dialler) implement this and are installed with setNotifier.
+export interface CustomerNotifier {
+  name: string;
+  send(message: CustomerMessage): Promise<NotifyResult>;
+}
+
+export const OUTREACH_TEMPLATES = {
+  suspicious_transaction: 'Hi {name}, we noticed a payment of {amount} at {merchant}. Reply YES if you made it, or NO if you did not.',
+  card_blocked_check: 'Hi {name}, we paused activity on your card after a payment of {amount} at {merchant}. Please call us to confirm it.'
+} as const;
+
+export type OutreachTemplate = keyof typeof OUTREACH_TEMPLATES;
+
+export function renderTemplate(template: OutreachTemplate, vars: Record<string, string>): string {
+  return OUTREACH_TEMPLATES[template].replace(/\{(\w+)\}/g, (_, key) => vars[key] ?? '');
+}
+
+// Dev stand-in: prints messages to the API logs
+export class ConsoleNotifier implements CustomerNotifier {
+  name = 'console';
+
+  async send(message: CustomerMessage): Promise<NotifyResult> {
+    const messageId = `msg_${crypto.randomUUID()}`;
+    logger.info(`📨 ${message.channel} to ${message.recipient} [${messageId}]: ${message.text}`);
+    return { messageId, delivered: true };
+  }
+}
+
+// Dev stand-in: appends each message as a JSON line to a local outbox file
+export class FileNotifier implements CustomerNotifier {
+  name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async send(message: CustomerMessage): Promise<NotifyResult> {
+    const messageId = `msg_${crypto.randomUUID()}`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ messageId, ...message, sentAt: new Date().toISOString() }) + '\n'
+    );
+    return { messageId, delivered: true };
+  }
+}
+
+function createDefaultNotifier(): CustomerNotifier {
+  switch (process.env.NOTIFIER || 'console') {
+    case 'file':
+      return new FileNotifier(process.env.NOTIFIER_OUTBOX_FILE || 'logs/notifications.log');
+    case 'console':
+      return new ConsoleNotifier();
+    default:
+      throw new Error(`Unknown NOTIFIER: ${process.env.NOTIFIER}`);
+  }
+}
+
+let notifier: CustomerNotifier = createDefaultNotifier();
+
+export function getNotifier(): CustomerNotifier {
+  return notifier;
+}
+
+export function setNotifier(next: CustomerNotifier): void {
+  notifier = next;
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { redis } from './redis.js';
+import { getOtpDeliveryAdapter } from './otpDelivery.js';
+import { recordDegraded, StoreUnavailableError } from './failurePolicy.js';
+
+// One-time codes for sensitive card actions. Only an HMAC of the code is
+// stored, keyed by card and action, so a code issued for freezing one card
+// cannot confirm anything else.
+const OTP_TTL_SECONDS = parseInt(process.env.OTP_TTL_SECONDS || '300');
+const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '3');
+const OTP_LOCKOUT_SECONDS = parseInt(process.env.OTP_LOCKOUT_SECONDS || '900');
+const OTP_SECRET = process.env.OTP_SECRET || 'dev_otp_secret';
+
+const challengeKey = (cardId: string, action: string) => `otp:challenge:${action}:${cardId}`;
+const lockKey = (cardId: string, action: string) => `otp:lock:${action}:${cardId}`;
+
+export type OtpAction = 'freeze_card' | 'unfreeze_card';
+
+export type OtpVerification =
+  | { status: 'verified'; challengeId: string }
+  | { status: 'invalid'; attemptsRemaining: number }
+  | { status: 'expired' }
+  | { status: 'locked'; retryAfter: number };
+
+export class OtpLockedError extends Error {
+  constructor(public retryAfter: number) {
+    super(`OTP locked, retry after ${retryAfter}s`);
+    this.name = 'OtpLockedError';
+  }
+}
+
+// A code cannot be checked without its challenge, so unlike rate limits and
+// idempotency there is no fail-open mode: a store outage always refuses
+async function otpStore<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    recordDegraded('otp', 'action', 'closed', error);
+    throw new StoreUnavailableError('otp', error);
+  }
+}
+
+// Compare a code hash with the challenge it was computed for and count the
+// attempt, atomically; a match consumes the challenge when ARGV[5] is '1'. A missing challenge (expired, used, or
+// discarded) is never recreated, and one replaced since it was read is
+// treated as expired.
+const CHECK_SCRIPT = `
+local challengeId = redis.call('HGET', KEYS[1], 'challengeId')
+if not challengeId or challengeId ~= ARGV[1] then return {'expired'} end
+if redis.call('HGET', KEYS[1], 'hash') == ARGV[2] then
+  if ARGV[5] == '1' then redis.call('DEL', KEYS[1]) end
+  return {'verified'}
+end
+local attempts = redis.call('HINCRBY', KEYS[1], 'attempts', 1)
+if attempts >= tonumber(ARGV[3]) then
+  redis.call('DEL', KEYS[1])
+  redis.call('SET', KEYS[2], '1', 'EX', ARGV[4])
+  return {'locked'}
+end
+return {'invalid', attempts}`;
+
+function hashCode(challengeId: string, code: string): string {
+  return crypto.createHmac('sha256', OTP_SECRET).update(`${challengeId}:${code}`).digest('hex');
+}
+
+async function lockedFor(cardId: string, action: OtpAction): Promise<number> {
+  const ttl = await redis.ttl(lockKey(cardId, action));
+  return ttl > 0 ? ttl : 0;
+}
+
+// Issue a fresh challenge, replacing any outstanding one for this card and action
+export async function issueOtp(params: {
+  cardId: string;
+  action: OtpAction;
+  cardLast4: string;
+  recipient: string;
+}) {
+  const retryAfter = await otpStore(() => lockedFor(params.cardId, params.action));
+  if (retryAfter > 0) throw new OtpLockedError(retryAfter);
+
+  const challengeId = `otp_${crypto.randomUUID()}`;
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const expiresAt = new Date(Date.now() + OTP_TTL_SECONDS * 1000).toISOString();
+  const key = challengeKey(params.cardId, params.action);
+
+  await otpStore(() => redis.multi()
+    .del(key)
+    .hset(key, { challengeId, hash: hashCode(challengeId, code), attempts: 0 })
+    .expire(key, OTP_TTL_SECONDS)
+    .exec());
+
+  const adapter = getOtpDeliveryAdapter();
+  await adapter.deliver({
+    challengeId,
+    action: params.action,
+    cardLast4: params.cardLast4,
+    recipient: params.recipient,
+    code,
+    expiresAt
+  });
+
+  return { challengeId, expiresAt, channel: adapter.channel };
+}
+
+// Check a code against the outstanding challenge. A correct code consumes the
+// challenge; too many wrong ones discard it and lock the card/action out.
+export function verifyOtp(cardId: string, action: OtpAction, code: string): Promise<OtpVerification> {
+  return otpStore(() => checkCode(cardId, action, code, true));
+}
+
+// Check a code without consuming the challenge, for requests that must see
+// every code verify before using any. Wrong codes still count as attempts.
+export function checkOtp(cardId: string, action: OtpAction, code: string): Promise<OtpVerification> {
+  return otpStore(() => checkCode(cardId, action, code, false));
+}
+
+async function checkCode(cardId: string, action: OtpAction, code: string, consume: boolean): Promise<OtpVerification> {
+  const retryAfter = await lockedFor(cardId, action);
+  if (retryAfter > 0) return { status: 'locked', retryAfter };
+
+  // The hash is keyed by the challenge ID, so read that first; the script
+  // rejects the check if the challenge changed in between
+  const challengeId = await redis.hget(challengeKey(cardId, action), 'challengeId');
+  if (!challengeId) return { status: 'expired' };
+
+  const [status, attempts] = await redis.eval(
+    CHECK_SCRIPT,
+    2,
+    challengeKey(cardId, action),
+    lockKey(cardId, action),
+    challengeId,
+    hashCode(challengeId, code),
+    OTP_MAX_ATTEMPTS,
+    OTP_LOCKOUT_SECONDS,
+    consume ? '1' : '0'
+  ) as [string, number?];
+
+  switch (status) {
+    case 'verified':
+      return { status: 'verified', challengeId };
+    case 'locked':
+      return { status: 'locked', retryAfter: OTP_LOCKOUT_SECONDS };
+    case 'invalid':
+      return { status: 'invalid', attemptsRemaining: OTP_MAX_ATTEMPTS - attempts! };
+    default:
+      return { status: 'expired' };
+  }
+}
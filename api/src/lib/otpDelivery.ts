@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+
+export interface OtpMessage {
+  challengeId: string;
+  action: string;
+  cardLast4: string;
+  recipient: string;
+  code: string;
+  expiresAt: string;
+}
+
+// Delivers a one-time code to the customer. Real providers (SMS, email)
+// implement this and are installed with setOtpDeliveryAdapter.
+export interface OtpDeliveryAdapter {
+  channel: string;
+  deliver(message: OtpMessage): Promise<void>;
+}
+
+function render(message: OtpMessage): string {
+  return `Your code to confirm ${message.action.replace(/_/g, ' ')} on card ending ${message.cardLast4} is ${message.code}. It expires at ${message.expiresAt}.`;
+}
+
+// Dev stand-in: prints the code to the API logs
+export class ConsoleOtpDelivery implements OtpDeliveryAdapter {
+  channel = 'console';
+
+  async deliver(message: OtpMessage): Promise<void> {
+    logger.info(`📨 OTP for ${message.recipient} [${message.challengeId}]: ${render(message)}`);
+  }
+}
+
+// Dev stand-in: appends each message as a JSON line to a local outbox file
+export class FileOtpDelivery implements OtpDeliveryAdapter {
+  channel = 'file';
+
+  constructor(private filePath: string) {}
+
+  async deliver(message: OtpMessage): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, text: render(message), sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+function createDefaultAdapter(): OtpDeliveryAdapter {
+  switch (process.env.OTP_DELIVERY || 'console') {
+    case 'file':
+      return new FileOtpDelivery(process.env.OTP_OUTBOX_FILE || 'logs/otp-outbox.log');
+    case 'console':
+      return new ConsoleOtpDelivery();
+    default:
+      throw new Error(`Unknown OTP_DELIVERY adapter: ${process.env.OTP_DELIVERY}`);
+  }
+}
+
+let adapter: OtpDeliveryAdapter = createDefaultAdapter();
+
+export function getOtpDeliveryAdapter(): OtpDeliveryAdapter {
+  return adapter;
+}
+
+export function setOtpDeliveryAdapter(next: OtpDeliveryAdapter): void {
+  adapter = next;
+}
@@ -0,0 +1,204 @@
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { logger } from './logger.js';
+
+const prisma = new PrismaClient();
+
+// Score bands: the highest band whose minScore the risk score reaches wins
+const ScoreBandsSchema = z.object({
+  kind: z.literal('score_bands'),
+  bands: z.array(z.object({
+    minScore: z.number().min(0).max(1),
+    risk: z.enum(['low', 'medium', 'high']),
+    recommendation: z.string(),
+    confidence: z.number().min(0).max(1)
+  })).min(1)
+});
+
+// Requirements: every matching row applies on top of the recommendation
+const RequirementsSchema = z.object({
+  kind: z.literal('requirements'),
+  rules: z.array(z.object({
+    recommendation: z.string(),
+    kycLevelMin: z.number().int().optional(),
+    kycLevelMax: z.number().int().optional(),
+    requiresOtp: z.boolean().optional(),
+    requiredApprovals: z.number().int().min(0).optional()
+  })).min(1)
+});
+
+// Auto-close: an auto-triaged alert is closed without an analyst when its
+// risk, score and recommendation all fall inside the threshold
+const AutoCloseSchema = z.object({
+  kind: z.literal('auto_close'),
+  maxScore: z.number().min(0).max(1),
+  alertRisks: z.array(z.enum(['low', 'medium', 'high'])).min(1),
+  recommendation: z.string().default('mark_false_positive')
+});
+
+export const DecisionTableSchema = z.discriminatedUnion('kind', [
+  ScoreBandsSchema,
+  RequirementsSchema,
+  AutoCloseSchema
+]);
+
+export type DecisionTable = z.infer<typeof DecisionTableSchema>;
+
+export interface DecisionPolicy {
+  code: string;
+  title: string;
+  table: DecisionTable;
+}
+
+export interface PolicyCitation {
+  code: string;
+  title: string;
+  effect: 'recommendation' | 'otp' | 'approvals';
+}
+
+// Built-in tables, used to seed policies and when none are configured
+export const DEFAULT_POLICIES: DecisionPolicy[] = [
+  {
+    code: 'TRIAGE_BANDS',
+    title: 'Triage Score Bands',
+    table: {
+      kind: 'score_bands',
+      bands: [
+        { minScore: 0.6, risk: 'high', recommendation: 'freeze_card', confidence: 0.92 },
+        { minScore: 0.3, risk: 'medium', recommendation: 'contact_customer', confidence: 0.78 },
+        { minScore: 0, risk: 'low', recommendation: 'mark_false_positive', confidence: 0.65 }
+      ]
+    }
+  },
+  {
+    code: 'OTP_REQUIRED',
+    title: 'OTP Verification Required',
+    table: {
+      kind: 'requirements',
+      rules: [{ recommendation: 'freeze_card', kycLevelMax: 2, requiresOtp: true }]
+    }
+  },
+  {
+    code: 'FREEZE_LIMIT',
+    title: 'Card Freeze Limits',
+    table: {
+      kind: 'requirements',
+      rules: [{ recommendation: 'freeze_card', kycLevelMin: 3, requiredApprovals: 1 }]
+    }
+  },
+  {
+    code: 'AUTO_CLOSE',
+    title: 'Low-Risk Auto Close',
+    table: {
+      kind: 'auto_close',
+      maxScore: 0.1,
+      alertRisks: ['low'],
+      recommendation: 'mark_false_positive'
+    }
+  }
+];
+
+export async function loadDecisionPolicies(): Promise<DecisionPolicy[]> {
+  const policies = await prisma.policy.findMany({ orderBy: { code: 'asc' } });
+
+  const parsed: DecisionPolicy[] = [];
+  for (const policy of policies) {
+    if (policy.decision_table === null) continue;
+
+    const table = DecisionTableSchema.safeParse(policy.decision_table);
+    if (table.success) {
+      parsed.push({ code: policy.code, title: policy.title, table: table.data });
+    } else {
+      logger.warn(`Skipping policy ${policy.code}: invalid decision table`);
+    }
+  }
+
+  return parsed.length > 0 ? parsed : DEFAULT_POLICIES;
+}
+
+type RequirementRule = z.infer<typeof RequirementsSchema>['rules'][number];
+
+// Requirement rows that apply to a recommendation at a customer's KYC level
+export function matchingRequirements(
+  policies: DecisionPolicy[],
+  recommendation: string,
+  kycLevel: number
+): { policy: DecisionPolicy; rule: RequirementRule }[] {
+  const matches: { policy: DecisionPolicy; rule: RequirementRule }[] = [];
+
+  for (const policy of policies) {
+    if (policy.table.kind !== 'requirements') continue;
+
+    for (const rule of policy.table.rules) {
+      if (rule.recommendation !== recommendation) continue;
+      if (rule.kycLevelMin !== undefined && kycLevel < rule.kycLevelMin) continue;
+      if (rule.kycLevelMax !== undefined && kycLevel > rule.kycLevelMax) continue;
+      matches.push({ policy, rule });
+    }
+  }
+
+  return matches;
+}
+
+export function evaluatePolicies(
+  policies: DecisionPolicy[],
+  input: { score: number; kycLevel: number }
+) {
+  let band: { risk: 'low' | 'medium' | 'high'; recommendation: string; confidence: number; minScore: number } | undefined;
+  let bandPolicy: DecisionPolicy | undefined;
+
+  // Highest matching band across all band policies
+  for (const policy of policies) {
+    if (policy.table.kind !== 'score_bands') continue;
+    for (const candidate of policy.table.bands) {
+      if (input.score >= candidate.minScore && (!band || candidate.minScore > band.minScore)) {
+        band = candidate;
+        bandPolicy = policy;
+      }
+    }
+  }
+
+  if (!band || !bandPolicy) {
+    throw new Error(`No policy covers risk score ${input.score}`);
+  }
+
+  const citations: PolicyCitation[] = [
+    { code: bandPolicy.code, title: bandPolicy.title, effect: 'recommendation' }
+  ];
+  let requiresOtp = false;
+  let requiredApprovals = 0;
+
+  for (const { policy, rule } of matchingRequirements(policies, band.recommendation, input.kycLevel)) {
+    if (rule.requiresOtp) {
+      requiresOtp = true;
+      citations.push({ code: policy.code, title: policy.title, effect: 'otp' });
+    }
+    if (rule.requiredApprovals) {
+      requiredApprovals = Math.max(requiredApprovals, rule.requiredApprovals);
+      citations.push({ code: policy.code, title: policy.title, effect: 'approvals' });
+    }
+  }
+
+  return {
+    risk: band.risk,
+    recommendation: band.recommendation,
+    confidence: band.confidence,
+    requiresOtp,
+    requiredApprovals,
+    policyCode: bandPolicy.code,
+    policies: citations
+  };
+}
+
+// First auto-close policy whose threshold covers this triage outcome
+export function findAutoClosePolicy(
+  policies: DecisionPolicy[],
+  outcome: { score: number; alertRisk: string; recommendation: string }
+): DecisionPolicy | undefined {
+  return policies.find(policy =>
+    policy.table.kind === 'auto_close' &&
+    outcome.score <= policy.table.maxScore &&
+    (policy.table.alertRisks as string[]).includes(outcome.alertRisk) &&
+    outcome.recommendation === policy.table.recommendation
+  );
+}
@@ -0,0 +1,71 @@
+import { Queue } from 'bullmq';
+import { redisConnection } from './redis.js';
+
+export const TRIAGE_QUEUE = 'triage';
+export const TRIAGE_DEAD_LETTER_QUEUE = 'triage-dead-letter';
+export const BULK_ACTIONS_QUEUE = 'bulk-actions';
+
+export interface TriageJobData {
+  runId: string;
+  alertId: string;
+  trigger: 'manual' | 'auto';
+  // Analyst who started the run; 'system' for auto runs
+  actor: string;
+}
+
+export interface DeadLetterJobData extends TriageJobData {
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+export interface BulkActionJobData {
+  bulkJobId: string;
+}
+
+// BullMQ runs lower numbers first
+export const RISK_PRIORITY: Record<string, number> = {
+  high: 1,
+  medium: 5,
+  low: 10
+};
+
+export const TRIAGE_JOB_ATTEMPTS = parseInt(process.env.TRIAGE_JOB_ATTEMPTS || '3');
+
+export const triageQueue = new Queue<TriageJobData>(TRIAGE_QUEUE, {
+  connection: redisConnection,
+  defaultJobOptions: {
+    attempts: TRIAGE_JOB_ATTEMPTS,
+    backoff: { type: 'exponential', delay: 1000 },
+    removeOnComplete: 1000,
+    removeOnFail: 5000
+  }
+});
+
+// Jobs that exhausted their attempts, kept for inspection and manual replay
+export const deadLetterQueue = new Queue<DeadLetterJobData>(TRIAGE_DEAD_LETTER_QUEUE, {
+  connection: redisConnection
+});
+
+// Bulk jobs skip items already processed, so a retried job resumes
+export const bulkActionsQueue = new Queue<BulkActionJobData>(BULK_ACTIONS_QUEUE, {
+  connection: redisConnection,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 2000 },
+    removeOnComplete: 1000,
+    removeOnFail: 5000
+  }
+});
+
+export async function getQueueDepth() {
+  const [triage, deadLetter] = await Promise.all([
+    triageQueue.getJobCounts('waiting', 'prioritized', 'active', 'delayed', 'failed', 'completed'),
+    deadLetterQueue.getJobCounts('waiting')
+  ]);
+
+  return {
+    ...triage,
+    deadLetter: deadLetter.waiting
+  };
+}
@@ -1,75 +1,269 @@
-// PAN (Primary Account Number) regex: 13-19 digits
-const PAN_REGEX = /\b\d{13,19}\b/g;
+import crypto from 'crypto';
+import { isToken, storeTokens, tokenFor, type VaultEntry } from './tokenVault.js';
 
-// Email regex
-const EMAIL_REGEX = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
+// Schema-aware redaction. Known fields get a policy by name (mask, hash, drop
+// or tokenize); every other string is scanned by the detectors below, each of
+// which validates its match before masking it. A policy can be limited to
+// some boundaries: customer names are masked in logs, traces and streams but
+// returned to the analysts who are allowed to read them.
 
-// SSN/Aadhaar-like patterns
-const SSN_REGEX = /\b\d{3}-\d{2}-\d{4}\b/g;
-const AADHAAR_REGEX = /\b\d{4}\s\d{4}\s\d{4}\b/g;
+export type PiiKind = 'pan' | 'email' | 'phone' | 'pan_card' | 'ifsc' | 'upi' | 'aadhaar' | 'ssn' | 'name';
+export type RedactionAction = 'mask' | 'hash' | 'drop' | 'tokenize' | 'allow';
 
-export function redactPII(text: string): { redacted: string; masked: boolean } {
-  let redacted = text;
-  let masked = false;
+// Where the redacted value is going
+export type RedactionBoundary = 'request' | 'response' | 'log' | 'trace' | 'stream';
+
+export interface FieldPolicy {
+  action: RedactionAction;
+  // Masker to use for 'mask' and the token kind for 'tokenize'; without it,
+  // 'mask' runs the text detectors over the value
+  kind?: PiiKind;
+  // Boundaries the policy applies at; all of them when omitted
+  boundaries?: RedactionBoundary[];
+}
+
+export interface RedactionResult<T = any> {
+  redacted: T;
+  masked: boolean;
+  // What was found, for logging (never the values)
+  kinds: PiiKind[];
+  // Originals behind the tokens in `redacted`, for the vault
+  tokens: VaultEntry[];
+}
+
+const REDACTION_HASH_SECRET = process.env.REDACTION_HASH_SECRET || 'dev_redaction_hash_secret';
+
+// Field names are matched case-insensitively with _ and - ignored, so
+// `cardNumber`, `card_number` and `CARD-NUMBER` are one field. A
+// `parent.field` entry only applies under that parent. Matching is exact:
+// `company` is not a `pan`.
+export const DEFAULT_FIELD_POLICIES: Record<string, FieldPolicy> = {
+  pan: { action: 'tokenize', kind: 'pan' },
+  cardnumber: { action: 'tokenize', kind: 'pan' },
+  pannumber: { action: 'tokenize', kind: 'pan' },
+  email: { action: 'mask', kind: 'email' },
+  phone: { action: 'mask', kind: 'phone' },
+  mobile: { action: 'mask', kind: 'phone' },
+  aadhaar: { action: 'drop' },
+  ssn: { action: 'drop' },
+  pancard: { action: 'tokenize', kind: 'pan_card' },
+  ifsc: { action: 'mask', kind: 'ifsc' },
+  upiid: { action: 'tokenize', kind: 'upi' },
+  vpa: { action: 'tokenize', kind: 'upi' },
+  customername: { action: 'mask', kind: 'name', boundaries: ['log', 'trace', 'stream'] },
+  'customer.name': { action: 'mask', kind: 'name', boundaries: ['log', 'trace', 'stream'] },
+  // Recipient of an OTP or outreach: a phone or an email, left to the detectors
+  recipient: { action: 'mask' }
+};
 
-  // Redact PANs (card numbers)
-  if (PAN_REGEX.test(redacted)) {
-    redacted = redacted.replace(PAN_REGEX, '****REDACTED****');
-    masked = true;
+// REDACTION_POLICIES='{"email":"hash","customer.name":"drop"}' overrides or
+// adds field policies
+function loadFieldPolicies(): Record<string, FieldPolicy> {
+  const policies = { ...DEFAULT_FIELD_POLICIES };
+  if (!process.env.REDACTION_POLICIES) return policies;
+
+  try {
+    const overrides = JSON.parse(process.env.REDACTION_POLICIES) as Record<string, RedactionAction | FieldPolicy>;
+    for (const [field, policy] of Object.entries(overrides)) {
+      const key = field.split('.').map(normalizeField).join('.');
+      policies[key] = typeof policy === 'string' ? { ...policies[key], action: policy } : policy;
+    }
+  } catch (error) {
+    // Not the logger: it is built on this module
+    console.error('Ignoring invalid REDACTION_POLICIES:', error);
   }
+  return policies;
+}
+
+function normalizeField(name: string): string {
+  return name.toLowerCase().replace(/[_-]/g, '');
+}
+
+const FIELD_POLICIES = loadFieldPolicies();
 
-  // Redact emails (partial)
-  if (EMAIL_REGEX.test(redacted)) {
-    redacted = redacted.replace(EMAIL_REGEX, (email) => {
-      const [username, domain] = email.split('@');
-      return `${username.slice(0, 2)}***@${domain}`;
+// --- Detectors ---
+
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+const mask = {
+  pan: () => '****REDACTED****',
+  email: (value: string) => {
+    const [username, domain] = value.split('@');
+    return `${username.slice(0, 2)}***@${domain}`;
+  },
+  phone: (value: string) => `******${value.replace(/\D/g, '').slice(-4)}`,
+  pan_card: (value: string) => `******${value.slice(-4)}`,
+  ifsc: (value: string) => `${value.slice(0, 4)}*******`,
+  upi: (value: string) => {
+    const [handle, provider] = value.split('@');
+    return `${handle.slice(0, 2)}***@${provider}`;
+  },
+  aadhaar: () => '**** **** ****',
+  ssn: () => '***-**-****',
+  name: (value: string) => value.split(/\s+/).filter(Boolean).map(part => `${part[0]}***`).join(' ')
+} satisfies Record<PiiKind, (value: string) => string>;
+
+interface Detector {
+  kind: Exclude<PiiKind, 'name'>;
+  pattern: RegExp;
+  // Reject matches that only look like the kind (IDs, timestamps)
+  validate?: (match: string) => boolean;
+}
+
+// Order matters: emails before UPI IDs, cards before phone numbers
+const DETECTORS: Detector[] = [
+  {
+    kind: 'pan',
+    // 13-19 digits, optionally grouped by spaces or dashes
+    pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+    validate: match => {
+      const digits = match.replace(/\D/g, '');
+      return digits.length >= 13 && digits.length <= 19 && luhnValid(digits);
+    }
+  },
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  // name@bank with no dot after the @, which would make it an email
+  { kind: 'upi', pattern: /(?<![\w.*-])[A-Za-z0-9._-]{2,256}@[A-Za-z]{2,64}(?![\w.@-])/g },
+  { kind: 'aadhaar', pattern: /\b[2-9]\d{3}\s\d{4}\s\d{4}\b/g },
+  { kind: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  // Indian mobile numbers: optional +91/0 prefix, 10 digits starting 6-9
+  { kind: 'phone', pattern: /(?<![\w+*])(?:\+91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?!\d)/g },
+  // Permanent Account Number: 5 letters (4th is the holder type), 4 digits, 1 letter
+  { kind: 'pan_card', pattern: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g },
+  // Bank branch code: 4 letters, a zero, 6 alphanumerics
+  { kind: 'ifsc', pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g }
+];
+
+// What one redaction pass found
+class Findings {
+  kinds = new Set<PiiKind>();
+  masked = false;
+  tokens: VaultEntry[] = [];
+
+  add(kind?: PiiKind) {
+    if (kind) this.kinds.add(kind);
+    this.masked = true;
+  }
+}
+
+// Mask every detected identifier in free text
+function scanText(text: string, findings: Findings): string {
+  let redacted = text;
+  for (const detector of DETECTORS) {
+    redacted = redacted.replace(detector.pattern, match => {
+      if (detector.validate && !detector.validate(match)) return match;
+      findings.add(detector.kind);
+      return mask[detector.kind](match);
     });
-    masked = true;
+  }
+  return redacted;
+}
+
+export function redactPII(text: string): { redacted: string; masked: boolean; kinds: PiiKind[] } {
+  const findings = new Findings();
+  const redacted = scanText(text, findings);
+  return { redacted, masked: findings.masked, kinds: Array.from(findings.kinds) };
+}
+
+// Stable pseudonym: joinable across records, not reversible
+export function hashValue(value: string): string {
+  return `h_${crypto.createHmac('sha256', REDACTION_HASH_SECRET).update(value).digest('hex').slice(0, 16)}`;
+}
+
+const HASHED_PATTERN = /^h_[0-9a-f]{16}$/;
+
+const DROP = Symbol('drop');
+
+// The field's redacted value, DROP, or undefined to walk it like any other
+function applyPolicy(policy: FieldPolicy, value: any, findings: Findings, vault: boolean): any {
+  if (value === null || value === undefined) return value;
+  if (policy.action === 'allow') return value;
+  if (policy.action === 'drop') {
+    findings.add(policy.kind);
+    return DROP;
   }
 
-  // Redact SSN/Aadhaar
-  if (SSN_REGEX.test(redacted) || AADHAAR_REGEX.test(redacted)) {
-    redacted = redacted.replace(SSN_REGEX, '***-**-****');
-    redacted = redacted.replace(AADHAAR_REGEX, '**** **** ****');
-    masked = true;
+  // Structured values under a sensitive name are walked, not flattened
+  if (typeof value === 'object' && !(value instanceof Date)) return undefined;
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  // Already redacted on the way in; redacting again must not change it
+  if (text === '' || isToken(text) || HASHED_PATTERN.test(text)) return text;
+
+  switch (policy.action) {
+    case 'hash':
+      findings.add(policy.kind);
+      return hashValue(text);
+    case 'tokenize': {
+      findings.add(policy.kind);
+      // Without a vault write to wait for, a token could not be reversed
+      if (!vault) return policy.kind ? mask[policy.kind](text) : scanText(text, findings);
+      const kind = policy.kind ?? 'field';
+      const token = tokenFor(text, kind);
+      findings.tokens.push({ token, kind, value: text });
+      return token;
+    }
+    case 'mask':
+      if (!policy.kind) return scanText(text, findings);
+      findings.add(policy.kind);
+      return mask[policy.kind](text);
   }
+}
 
-  return { redacted, masked };
+function policyFor(
+  policies: Record<string, FieldPolicy>,
+  boundary: RedactionBoundary,
+  parent: string | null,
+  key: string
+): FieldPolicy | undefined {
+  const field = normalizeField(key);
+  const policy = (parent !== null ? policies[`${parent}.${field}`] : undefined) ?? policies[field];
+  if (policy?.boundaries && !policy.boundaries.includes(boundary)) return undefined;
+  return policy;
 }
 
-export function redactObject(obj: any): { redacted: any; masked: boolean } {
-  let globalMasked = false;
+// Synchronous redaction. Tokenize fields are only tokenized with `vault`
+// set, and the caller must then store `tokens` before the value leaves;
+// otherwise they are masked.
+export function redactObject<T = any>(
+  obj: T,
+  options: { boundary: RedactionBoundary; policies?: Record<string, FieldPolicy>; vault?: boolean }
+): RedactionResult {
+  const policies = options.policies ?? FIELD_POLICIES;
+  const vault = options.vault ?? false;
+  const findings = new Findings();
 
-  function redactRecursive(value: any): any {
+  function redactRecursive(value: any, parent: string | null): any {
     if (value instanceof Date) {
       return value.toISOString();
     }
     if (typeof value === 'string') {
-      const { redacted, masked } = redactPII(value);
-      if (masked) globalMasked = true;
-      return redacted;
+      return scanText(value, findings);
     }
 
     if (Array.isArray(value)) {
-      return value.map(redactRecursive);
+      return value.map(item => redactRecursive(item, parent));
     }
 
     if (value && typeof value === 'object') {
       const redactedObj: any = {};
       for (const [key, val] of Object.entries(value)) {
-        // Redact sensitive field names
-        if (key.toLowerCase().includes('pan')) {
-          if (typeof val === 'string') {
-            const { redacted, masked } = redactPII(val);
-            if (masked) globalMasked = true;
-            redactedObj[key] = redacted;
-          } else {
-            redactedObj[key] = '****REDACTED****';
-            globalMasked = true;
-          }
-        } else {
-          redactedObj[key] = redactRecursive(val);
-        }
+        const policy = policyFor(policies, options.boundary, parent, key);
+        const applied = policy ? applyPolicy(policy, val, findings, vault) : undefined;
+
+        if (applied === DROP) continue;
+        redactedObj[key] = applied !== undefined ? applied : redactRecursive(val, normalizeField(key));
       }
       return redactedObj;
     }
@@ -77,12 +271,35 @@ export function redactObject(obj: any): { redacted: any; masked: boolean } {
     return value;
   }
 
-  const redacted = redactRecursive(obj);
-  return { redacted, masked: globalMasked };
+  const redacted = redactRecursive(obj, null);
+  return { redacted, masked: findings.masked, kinds: Array.from(findings.kinds), tokens: findings.tokens };
+}
+
+// Redact with tokenization, resolving once the vault holds every original
+// behind the returned tokens. A failed vault write rejects rather than hand
+// out a token nobody can reverse.
+export async function redactObjectToVault<T = any>(
+  obj: T,
+  options: { boundary: RedactionBoundary; policies?: Record<string, FieldPolicy> }
+): Promise<RedactionResult> {
+  const result = redactObject(obj, { ...options, vault: true });
+  await storeTokens(result.tokens);
+  return result;
+}
+
+// Redacted copy of a value about to be persisted or returned
+export async function redactToVault<T>(value: T, boundary: RedactionBoundary): Promise<T> {
+  return (await redactObjectToVault(value, { boundary })).redacted;
+}
+
+// Redacted copy for paths that cannot wait for the vault (logs, streams):
+// tokenize fields are masked instead
+export function redact<T>(value: T, boundary: RedactionBoundary): T {
+  return redactObject(value, { boundary }).redacted;
 }
 
 // Mask customer ID for logging
 export function maskCustomerId(id: string): string {
   if (!id || id.length < 8) return '****';
   return `${id.slice(0, 4)}****${id.slice(-4)}`;
-}
\ No newline at end of file
+}
@@ -1,8 +1,13 @@
 import Redis from 'ioredis';
+import { logger } from './logger.js';
 
-export const redis = new Redis({
+export const redisConnection = {
   host: process.env.REDIS_HOST || 'redis',
-  port: parseInt(process.env.REDIS_PORT || '6379'),
+  port: parseInt(process.env.REDIS_PORT || '6379')
+};
+
+export const redis = new Redis({
+  ...redisConnection,
   maxRetriesPerRequest: 3,
   retryStrategy(times) {
     const delay = Math.min(times * 50, 2000);
@@ -11,59 +16,73 @@ export const redis = new Redis({
 });
 
 redis.on('connect', () => {
-  console.log('✅ Redis connected');
+  logger.info('✅ Redis connected');
 });
 
 redis.on('error', (err) => {
-  console.error('❌ Redis error:', err);
+  logger.error({ err }, '❌ Redis error');
 });
 
-// Token bucket rate limiter
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  reset: number;
+  retryAfter?: number;
+}
+
+// Refill and take one token in a single step, on Redis' clock so every
+// instance sees the same bucket. Returns {allowed, tokens left}.
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_per_ms = tonumber(ARGV[2]) / 1000
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refill_per_ms)
+
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill_per_ms) + 1000)
+return {allowed, tostring(tokens)}`;
+
+// Token bucket rate limiter: bursts up to `capacity` requests, refilled at
+// `refillPerSecond`
 export class RateLimiter {
-  private capacity: number;
-  private refillRate: number;
-  private window: number;
+  constructor(
+    private name: string,
+    public readonly capacity: number,
+    public readonly refillPerSecond: number
+  ) {}
 
-  constructor(capacity = 5, windowSeconds = 1) {
-    this.capacity = capacity;
-    this.refillRate = capacity / windowSeconds;
-    this.window = windowSeconds;
-  }
+  async checkLimit(key: string): Promise<RateLimitResult> {
+    const redisKey = `ratelimit:${this.name}:${key}`;
+
+    // Redis errors propagate; the caller applies the route's failure mode
+    const [allowed, tokensLeft] = await redis.eval(
+      TOKEN_BUCKET_SCRIPT,
+      1,
+      redisKey,
+      this.capacity,
+      this.refillPerSecond
+    ) as [number, string];
+    const tokens = parseFloat(tokensLeft);
 
-  async checkLimit(key: string): Promise<{ allowed: boolean; retryAfter?: number }> {
-    const now = Date.now();
-    const windowStart = now - this.window * 1000;
-    
-    // Redis sorted set: score = timestamp, member = unique request ID
-    const redisKey = `ratelimit:${key}`;
-    
-    try {
-      // Clean old entries and add new request
-      const multi = redis.multi();
-      multi.zremrangebyscore(redisKey, 0, windowStart);
-      multi.zadd(redisKey, now, `${now}-${Math.random()}`);
-      multi.zcard(redisKey);
-      multi.expire(redisKey, this.window * 2);
-      
-      const results = await multi.exec();
-      const count = results?.[2]?.[1] as number;
-      
-      if (count > this.capacity) {
-        // Calculate retry after
-        const oldestTimestamp = await redis.zrange(redisKey, 0, 0, 'WITHSCORES');
-        const oldestTime = parseInt(oldestTimestamp[1] || '0');
-        const retryAfter = Math.ceil((oldestTime + this.window * 1000 - now) / 1000);
-        
-        return { allowed: false, retryAfter: Math.max(retryAfter, 1) };
-      }
-      
-      return { allowed: true };
-    } catch (error) {
-      console.error('Rate limiter error:', error);
-      // Fail open (allow request on Redis error)
-      return { allowed: true };
-    }
+    return {
+      allowed: allowed === 1,
+      limit: this.capacity,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((this.capacity - tokens) / this.refillPerSecond),
+      retryAfter: allowed === 1 ? undefined : Math.max(Math.ceil((1 - tokens) / this.refillPerSecond), 1)
+    };
   }
 }
-
-export const rateLimiter = new RateLimiter(5, 1); // 5 requests per second
\ No newline at end of file
@@ -0,0 +1,220 @@
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { RECENT_DEVICE_DAYS } from './devices.js';
+import { RECENT_CHARGEBACK_DAYS } from './chargebacks.js';
+import { logger } from './logger.js';
+
+const prisma = new PrismaClient();
+
+// Features the riskSignals step exposes to rule conditions
+export const RISK_FEATURES = [
+  'txCount',
+  'uniqueMerchants',
+  'totalSpend',
+  'avgAmount',
+  'suspectAmount',
+  'suspectCountry',
+  'suspectMerchant',
+  'kycLevel',
+  'cardCount',
+  'accountBalance',
+  'deviceNew',
+  'deviceTrusted',
+  'deviceAgeDays',
+  'chargebackCount',
+  'recentChargebackCount'
+] as const;
+
+export type RiskFeatureName = typeof RISK_FEATURES[number];
+export type RiskFeatures = Record<RiskFeatureName, number | string | boolean | null>;
+
+type Scalar = number | string | boolean;
+
+export type RuleCondition =
+  | { feature: RiskFeatureName; op: 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq'; value: Scalar }
+  | { feature: RiskFeatureName; op: 'in' | 'not_in'; value: Scalar[] }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+const ScalarSchema = z.union([z.number(), z.string(), z.boolean()]);
+
+export const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.union([
+    z.object({
+      feature: z.enum(RISK_FEATURES),
+      op: z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'neq']),
+      value: ScalarSchema
+    }),
+    z.object({
+      feature: z.enum(RISK_FEATURES),
+      op: z.enum(['in', 'not_in']),
+      value: z.array(ScalarSchema)
+    }),
+    z.object({ all: z.array(RuleConditionSchema).min(1) }),
+    z.object({ any: z.array(RuleConditionSchema).min(1) }),
+    z.object({ not: RuleConditionSchema })
+  ])
+);
+
+export const RiskRuleSchema = z.object({
+  code: z.string().regex(/^[a-z][a-z0-9_]*$/, 'code must be snake_case'),
+  description: z.string().optional(),
+  condition: RuleConditionSchema,
+  weight: z.number().min(0).max(1),
+  enabled: z.boolean().default(true)
+});
+
+export type RiskRuleInput = z.infer<typeof RiskRuleSchema>;
+
+export interface LoadedRuleset {
+  version: number;
+  rules: RiskRuleInput[];
+}
+
+// Built-in rules, used to seed version 1 and when no ruleset is active.
+// Version 0 in a TriageRun means these defaults were applied.
+export const DEFAULT_RULES: RiskRuleInput[] = [
+  {
+    code: 'high_velocity',
+    description: 'More than 15 recent transactions',
+    condition: { feature: 'txCount', op: 'gt', value: 15 },
+    weight: 0.25,
+    enabled: true
+  },
+  {
+    code: 'large_amount',
+    description: 'Suspect transaction above ₹500',
+    condition: { feature: 'suspectAmount', op: 'gt', value: 50000 },
+    weight: 0.25,
+    enabled: true
+  },
+  {
+    code: 'foreign_transaction',
+    description: 'Suspect transaction outside India',
+    condition: { feature: 'suspectCountry', op: 'neq', value: 'IN' },
+    weight: 0.25,
+    enabled: true
+  },
+  {
+    code: 'merchant_concentration',
+    description: 'Many recent transactions across fewer than 3 merchants',
+    condition: {
+      all: [
+        { feature: 'uniqueMerchants', op: 'lt', value: 3 },
+        { feature: 'txCount', op: 'gt', value: 10 }
+      ]
+    },
+    weight: 0.25,
+    enabled: true
+  },
+  {
+    code: 'new_device',
+    description: 'Suspect transaction is the first seen from its device',
+    condition: { feature: 'deviceNew', op: 'eq', value: true },
+    weight: 0.3,
+    enabled: true
+  },
+  {
+    code: 'recent_device',
+    description: `Device first seen less than ${RECENT_DEVICE_DAYS} days before the transaction`,
+    condition: {
+      all: [
+        { feature: 'deviceNew', op: 'eq', value: false },
+        { feature: 'deviceAgeDays', op: 'lt', value: RECENT_DEVICE_DAYS }
+      ]
+    },
+    weight: 0.15,
+    enabled: true
+  },
+  {
+    code: 'untrusted_device',
+    description: 'Established device that was never marked trusted',
+    condition: {
+      all: [
+        { feature: 'deviceNew', op: 'eq', value: false },
+        { feature: 'deviceTrusted', op: 'eq', value: false }
+      ]
+    },
+    weight: 0.1,
+    enabled: true
+  },
+  {
+    code: 'recent_chargeback',
+    description: `Chargeback filed in the last ${RECENT_CHARGEBACK_DAYS} days`,
+    condition: { feature: 'recentChargebackCount', op: 'gte', value: 1 },
+    weight: 0.15,
+    enabled: true
+  },
+  {
+    code: 'repeat_chargebacks',
+    description: 'Three or more chargebacks on record',
+    condition: { feature: 'chargebackCount', op: 'gte', value: 3 },
+    weight: 0.2,
+    enabled: true
+  }
+];
+
+export const DEFAULT_RULESET: LoadedRuleset = { version: 0, rules: DEFAULT_RULES };
+
+// Load the active ruleset, falling back to the built-in defaults
+export async function loadActiveRuleset(): Promise<LoadedRuleset> {
+  const ruleset = await prisma.riskRuleset.findFirst({
+    where: { status: 'active' },
+    orderBy: { version: 'desc' },
+    include: { rules: { where: { enabled: true } } }
+  });
+
+  if (!ruleset) return DEFAULT_RULESET;
+
+  const rules: RiskRuleInput[] = [];
+  for (const rule of ruleset.rules) {
+    const parsed = RiskRuleSchema.safeParse(rule);
+    if (parsed.success) {
+      rules.push(parsed.data);
+    } else {
+      logger.warn(`Skipping invalid risk rule ${rule.code} in ruleset v${ruleset.version}`);
+    }
+  }
+
+  return { version: ruleset.version, rules };
+}
+
+export function evaluateCondition(condition: RuleCondition, features: RiskFeatures): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, features));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, features));
+  if ('not' in condition) return !evaluateCondition(condition.not, features);
+
+  const actual = features[condition.feature];
+
+  switch (condition.op) {
+    case 'eq': return actual === condition.value;
+    case 'neq': return actual !== condition.value;
+    case 'in': return actual !== null && condition.value.includes(actual);
+    case 'not_in': return actual === null || !condition.value.includes(actual);
+  }
+
+  // Ordering comparisons only apply to numbers
+  if (typeof actual !== 'number' || typeof condition.value !== 'number') return false;
+
+  switch (condition.op) {
+    case 'gt': return actual > condition.value;
+    case 'gte': return actual >= condition.value;
+    case 'lt': return actual < condition.value;
+    case 'lte': return actual <= condition.value;
+  }
+}
+
+export function evaluateRuleset(ruleset: LoadedRuleset, features: RiskFeatures) {
+  const matched = ruleset.rules.filter(
+    rule => rule.enabled && evaluateCondition(rule.condition, features)
+  );
+
+  const weight = matched.reduce((sum, rule) => sum + rule.weight, 0);
+
+  return {
+    signals: matched.map(rule => rule.code),
+    score: Math.min(Math.round(weight * 100) / 100, 1.0),
+    rulesetVersion: ruleset.version
+  };
+}
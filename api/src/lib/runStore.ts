@@ -0,0 +1,103 @@
+import type Redis from 'ioredis';
+import { redis } from './redis.js';
+import { redact } from './redactor.js';
+import type { StreamEvent } from '../types/agents.js';
+
+// Runs and their events live in Redis so any API instance can serve a stream
+const RUN_TTL_SECONDS = 60 * 60;
+const MAX_EVENTS_PER_RUN = 1000;
+
+const runKey = (runId: string) => `triage:run:${runId}`;
+const eventsKey = (runId: string) => `triage:events:${runId}`;
+
+export interface RunState {
+  runId: string;
+  alertId: string;
+  status: 'queued' | 'running' | 'complete' | 'error';
+  owner: string | null;
+  attempts: number;
+}
+
+export interface StoredEvent {
+  id: string;
+  event: StreamEvent;
+}
+
+export async function createRun(runId: string, alertId: string): Promise<void> {
+  await redis.multi()
+    .hset(runKey(runId), {
+      runId,
+      alertId,
+      status: 'queued',
+      attempts: 0
+    })
+    .expire(runKey(runId), RUN_TTL_SECONDS)
+    .exec();
+}
+
+// Record the worker that picked the run up; returns the attempt number
+export async function markRunning(runId: string, owner: string): Promise<number> {
+  const results = await redis.multi()
+    .hset(runKey(runId), { status: 'running', owner })
+    .hincrby(runKey(runId), 'attempts', 1)
+    .expire(runKey(runId), RUN_TTL_SECONDS)
+    .exec();
+
+  return results?.[1]?.[1] as number;
+}
+
+export async function getRun(runId: string): Promise<RunState | null> {
+  const hash = await redis.hgetall(runKey(runId));
+  if (!hash.runId) return null;
+
+  return {
+    runId: hash.runId,
+    alertId: hash.alertId,
+    status: hash.status as RunState['status'],
+    owner: hash.owner || null,
+    attempts: parseInt(hash.attempts)
+  };
+}
+
+export async function finishRun(runId: string, status: 'complete' | 'error'): Promise<void> {
+  // Writing a hash that expired meanwhile recreates it, so renew the TTL
+  await redis.multi()
+    .hset(runKey(runId), 'status', status)
+    .expire(runKey(runId), RUN_TTL_SECONDS)
+    .exec();
+}
+
+// Events are redacted before they are stored: the stream is replayed to any
+// client that reconnects
+export async function appendEvent(runId: string, event: StreamEvent): Promise<string> {
+  const results = await redis.multi()
+    .xadd(eventsKey(runId), 'MAXLEN', '~', MAX_EVENTS_PER_RUN, '*', 'event', JSON.stringify(redact(event, 'stream')))
+    .expire(eventsKey(runId), RUN_TTL_SECONDS)
+    .exec();
+
+  return results?.[0]?.[1] as string;
+}
+
+// One SSE frame. Redacts again on the way out, so nothing written to the
+// stream depends on how the event got here.
+export function formatStreamEvent(event: object, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(redact(event, 'stream'))}\n\n`;
+}
+
+// Read events after `afterId` ('0' replays from the start), blocking up to
+// `blockMs` for new ones. Blocking reads need a dedicated connection.
+export async function readEvents(
+  conn: Redis,
+  runId: string,
+  afterId: string,
+  blockMs: number
+): Promise<StoredEvent[]> {
+  const response = await conn.xread('COUNT', 100, 'BLOCK', blockMs, 'STREAMS', eventsKey(runId), afterId);
+  if (!response) return [];
+
+  const [, entries] = response[0];
+  return entries.map(([id, fields]) => ({
+    id,
+    event: JSON.parse(fields[1]) as StreamEvent
+  }));
+}
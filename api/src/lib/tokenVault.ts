@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Local vault for reversible tokenization. Tokens are derived from the value
+// (HMAC), so the same card always gets the same token; callers store the
+// encrypted original in token_vault before the token leaves the process.
+const TOKEN_VAULT_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.TOKEN_VAULT_KEY || 'dev_token_vault_key')
+  .digest();
+
+// Tokens already written by this process, so hot values are stored once
+const STORED_CACHE_LIMIT = 10_000;
+const stored = new Set<string>();
+
+const TOKEN_PATTERN = /^tok_([a-z_]+)_[0-9a-f]{24}$/;
+
+function encrypt(value: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', TOKEN_VAULT_KEY, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map(b => b.toString('base64url')).join('.');
+}
+
+function decrypt(ciphertext: string): string {
+  const [iv, tag, data] = ciphertext.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', TOKEN_VAULT_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+export function isToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value);
+}
+
+export interface VaultEntry {
+  token: string;
+  kind: string;
+  value: string;
+}
+
+// The token for a value. Nothing is stored: see storeTokens.
+export function tokenFor(value: string, kind: string): string {
+  const digest = crypto.createHmac('sha256', TOKEN_VAULT_KEY).update(`${kind}:${value}`).digest('hex');
+  return `tok_${kind}_${digest.slice(0, 24)}`;
+}
+
+// Write the originals behind new tokens; rejects if the vault write fails
+export async function storeTokens(entries: VaultEntry[]): Promise<void> {
+  const pending = entries.filter(entry => !stored.has(entry.token));
+  if (pending.length === 0) return;
+
+  await prisma.tokenVaultEntry.createMany({
+    data: pending.map(({ token, kind, value }) => ({ token, kind, ciphertext: encrypt(value) })),
+    skipDuplicates: true
+  });
+
+  if (stored.size >= STORED_CACHE_LIMIT) stored.clear();
+  for (const { token } of pending) stored.add(token);
+}
+
+// Originals behind the given tokens (null when unknown). Every lookup is
+// recorded in token_access_log with the actor and reason.
+export async function detokenize(
+  tokens: string[],
+  actor: string,
+  reason: string
+): Promise<Record<string, { kind: string; value: string } | null>> {
+  const unique = Array.from(new Set(tokens));
+  const entries = await prisma.tokenVaultEntry.findMany({ where: { token: { in: unique } } });
+  const byToken = new Map(entries.map(e => [e.token, e]));
+
+  await prisma.tokenAccessLog.createMany({
+    data: unique.map(token => ({ token, actor, reason, found: byToken.has(token) }))
+  });
+
+  return Object.fromEntries(
+    unique.map(token => {
+      const entry = byToken.get(token);
+      return [token, entry ? { kind: entry.kind, value: decrypt(entry.ciphertext) } : null];
+    })
+  );
+}
@@ -0,0 +1,140 @@
+import { PrismaClient, type Transaction } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// History a new transaction is compared against
+export const BASELINE_DAYS = 90;
+// Baseline needs this many past transactions before amounts are judged
+export const MIN_BASELINE_TXNS = 5;
+
+export const VELOCITY_WINDOW_MS = 60 * 60 * 1000;
+export const VELOCITY_MAX_TXNS = 5;
+// Amount is a spike above this multiple of the customer's average
+export const AMOUNT_SPIKE_RATIO = 3;
+
+// Combined score at which an alert is raised
+export const ALERT_THRESHOLD = parseFloat(process.env.INGEST_ALERT_THRESHOLD || '0.4');
+
+const SIGNAL_WEIGHTS = {
+  high_velocity: 0.35,
+  large_amount: 0.35,
+  new_country: 0.3,
+  new_device: 0.25,
+  new_city: 0.15
+} as const;
+
+export type TxnSignal = keyof typeof SIGNAL_WEIGHTS;
+
+export interface TxnScore {
+  txnId: string;
+  customerId: string;
+  score: number;
+  risk: 'low' | 'medium' | 'high';
+  signals: TxnSignal[];
+}
+
+type ScoredTxn = Pick<Transaction, 'id' | 'customer_id' | 'amount_cents' | 'ts' | 'device_id' | 'country' | 'city'>;
+
+function riskFor(score: number): TxnScore['risk'] {
+  if (score >= 0.7) return 'high';
+  if (score >= 0.5) return 'medium';
+  return 'low';
+}
+
+// Score one transaction against everything the customer did before it
+export function scoreTransaction(
+  txn: ScoredTxn,
+  history: ScoredTxn[],
+  knownDevices: Map<string, Date>
+): TxnScore {
+  const signals: TxnSignal[] = [];
+  const ts = txn.ts.getTime();
+
+  // Velocity: transactions in the hour leading up to (and including) this one
+  const recent = history.filter(h => ts - h.ts.getTime() <= VELOCITY_WINDOW_MS).length + 1;
+  if (recent >= VELOCITY_MAX_TXNS) signals.push('high_velocity');
+
+  if (history.length >= MIN_BASELINE_TXNS) {
+    const average = history.reduce((sum, h) => sum + h.amount_cents, 0) / history.length;
+    if (txn.amount_cents >= average * AMOUNT_SPIKE_RATIO) signals.push('large_amount');
+  }
+
+  // Location and device novelty only mean something once there is history
+  if (history.length > 0) {
+    if (!history.some(h => h.country === txn.country)) {
+      signals.push('new_country');
+    } else if (txn.city && !history.some(h => h.city === txn.city)) {
+      signals.push('new_city');
+    }
+  }
+
+  if (txn.device_id) {
+    const firstSeen = knownDevices.get(txn.device_id);
+    const seenBefore = (firstSeen !== undefined && firstSeen < txn.ts) ||
+      history.some(h => h.device_id === txn.device_id);
+    if (!seenBefore && (history.length > 0 || knownDevices.size > 0)) signals.push('new_device');
+  }
+
+  // Strongest signal first, so it becomes the alert's headline reason
+  signals.sort((a, b) => SIGNAL_WEIGHTS[b] - SIGNAL_WEIGHTS[a]);
+
+  const score = Math.min(signals.reduce((sum, s) => sum + SIGNAL_WEIGHTS[s], 0), 1);
+
+  return {
+    txnId: txn.id,
+    customerId: txn.customer_id,
+    score: Math.round(score * 100) / 100,
+    risk: riskFor(score),
+    signals
+  };
+}
+
+// Score an ingested batch per customer, in timestamp order, so earlier
+// transactions in the same batch count as history for later ones.
+// Must run before the batch's device sightings are recorded.
+export async function scoreTransactions(txns: ScoredTxn[]): Promise<TxnScore[]> {
+  if (txns.length === 0) return [];
+
+  const customerIds = Array.from(new Set(txns.map(t => t.customer_id)));
+  const batchIds = txns.map(t => t.id);
+  const earliest = txns.reduce((min, t) => (t.ts < min ? t.ts : min), txns[0].ts);
+  const latest = txns.reduce((max, t) => (t.ts > max ? t.ts : max), txns[0].ts);
+
+  const [history, devices] = await Promise.all([
+    prisma.transaction.findMany({
+      where: {
+        customer_id: { in: customerIds },
+        id: { notIn: batchIds },
+        ts: { gte: new Date(earliest.getTime() - BASELINE_DAYS * DAY_MS), lte: latest }
+      },
+      select: { id: true, customer_id: true, amount_cents: true, ts: true, device_id: true, country: true, city: true }
+    }),
+    prisma.device.findMany({
+      where: { customer_id: { in: customerIds } },
+      select: { customer_id: true, device_id: true, first_seen: true }
+    })
+  ]);
+
+  const scores: TxnScore[] = [];
+
+  for (const customerId of customerIds) {
+    const past = history.filter(h => h.customer_id === customerId);
+    const knownDevices = new Map(
+      devices.filter(d => d.customer_id === customerId).map(d => [d.device_id, d.first_seen])
+    );
+    const batch = txns
+      .filter(t => t.customer_id === customerId)
+      .sort((a, b) => a.ts.getTime() - b.ts.getTime());
+
+    for (const txn of batch) {
+      const since = txn.ts.getTime() - BASELINE_DAYS * DAY_MS;
+      const before = past.filter(h => h.ts < txn.ts && h.ts.getTime() >= since);
+      scores.push(scoreTransaction(txn, before, knownDevices));
+      past.push(txn);
+    }
+  }
+
+  return scores;
+}
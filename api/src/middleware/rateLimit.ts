@@ -1,26 +1,85 @@
 import { Request, Response, NextFunction } from 'express';
-import { rateLimiter } from '../lib/redis.js';
+import { RateLimiter } from '../lib/redis.js';
 import { rateLimitBlocks } from '../lib/metrics.js';
+import {
+  failureModeFor,
+  recordDegraded,
+  storeUnavailableBody,
+  type RouteGroup
+} from '../lib/failurePolicy.js';
+import { logger } from '../lib/logger.js';
 
-export async function rateLimitMiddleware(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  // Use IP as client identifier (in production, use API key or user ID)
-  const clientId = req.ip || 'unknown';
-  
-  const result = await rateLimiter.checkLimit(clientId);
-  
-  if (!result.allowed) {
-    rateLimitBlocks.inc({ client: clientId });
-    res.set('Retry-After', result.retryAfter?.toString() || '1');
-    return res.status(429).json({
-      error: 'Too many requests',
-      retryAfter: result.retryAfter,
-      message: `Rate limit exceeded. Try again in ${result.retryAfter} seconds.`
-    });
+// Budgets per route group, each a token bucket per client. Override with
+// RATE_LIMIT_<GROUP>=<burst>:<refill per second>, e.g. RATE_LIMIT_INGEST=200:50
+const DEFAULT_POLICIES: Record<RouteGroup, { capacity: number; refillPerSecond: number }> = {
+  // Customer profile, transactions and insights
+  read: { capacity: 20, refillPerSecond: 10 },
+  // Partners post transactions in batches and retry in bursts
+  ingest: { capacity: 100, refillPerSecond: 20 },
+  // Card actions, bulk jobs and approvals: 10 in a burst, then 1 every 5s
+  action: { capacity: 10, refillPerSecond: 0.2 }
+};
+
+export type RateLimitPolicy = RouteGroup;
+
+function loadPolicy(name: RateLimitPolicy): RateLimiter {
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+  const [capacity, refillPerSecond] = override?.split(':').map(Number) ?? [];
+
+  if (override && !(capacity > 0 && refillPerSecond > 0)) {
+    logger.warn(`Ignoring invalid RATE_LIMIT_${name.toUpperCase()}="${override}", using defaults`);
   }
-  
-  next();
-}
\ No newline at end of file
+
+  return override && capacity > 0 && refillPerSecond > 0
+    ? new RateLimiter(name, capacity, refillPerSecond)
+    : new RateLimiter(name, DEFAULT_POLICIES[name].capacity, DEFAULT_POLICIES[name].refillPerSecond);
+}
+
+const limiters = Object.fromEntries(
+  (Object.keys(DEFAULT_POLICIES) as RateLimitPolicy[]).map(name => [name, loadPolicy(name)])
+) as Record<RateLimitPolicy, RateLimiter>;
+
+// Clients are identified by the API key they authenticated with (session
+// tokens carry theirs), so analysts sharing an IP do not share a budget.
+// Mount after requireAuth/requirePermission. GET requests draw on
+// `readPolicy`, so polling a job or listing approvals does not use up the
+// budget for writes.
+export function rateLimit(policy: RateLimitPolicy, readPolicy: RateLimitPolicy = policy) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const applied = req.method === 'GET' || req.method === 'HEAD' ? readPolicy : policy;
+    const limiter = limiters[applied];
+    const clientId = req.analyst ? `key:${req.analyst.keyId}` : `ip:${req.ip || 'unknown'}`;
+
+    let result;
+    try {
+      result = await limiter.checkLimit(clientId);
+    } catch (error) {
+      const mode = failureModeFor(applied);
+      recordDegraded('rate_limit', applied, mode, error);
+      if (mode === 'open') return next();
+
+      const body = storeUnavailableBody('rate_limit');
+      res.set('Retry-After', body.retryAfter.toString());
+      return res.status(503).json(body);
+    }
+
+    res.set({
+      'X-RateLimit-Limit': result.limit.toString(),
+      'X-RateLimit-Remaining': result.remaining.toString(),
+      'X-RateLimit-Reset': result.reset.toString()
+    });
+
+    if (!result.allowed) {
+      rateLimitBlocks.inc({ client_type: req.analyst ? 'api_key' : 'ip', policy: applied });
+      res.set('Retry-After', result.retryAfter?.toString() || '1');
+      return res.status(429).json({
+        error: 'Too many requests',
+        policy: applied,
+        retryAfter: result.retryAfter,
+        message: `Rate limit exceeded. Try again in ${result.retryAfter} seconds.`
+      });
+    }
+
+    next();
+  };
+}
@@ -1,81 +1,224 @@
 import { Request, Response, NextFunction } from 'express';
-import { redactObject } from '../lib/redactor.js';
+import { redactObjectToVault } from '../lib/redactor.js';
+import { authenticate, can, type Permission, type Principal } from '../lib/auth.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  fingerprintRequest,
+  releaseIdempotencyKey,
+  type IdempotencyClaim
+} from '../lib/idempotency.js';
+import { idempotencyOutcomes } from '../lib/metrics.js';
+import {
+  failureModeFor,
+  recordDegraded,
+  storeUnavailableBody,
+  type RouteGroup
+} from '../lib/failurePolicy.js';
+import { logger } from '../lib/logger.js';
 
 // Redact request bodies before processing
-export function redactRequestBody(req: Request, res: Response, next: NextFunction) {
-  if (req.body && typeof req.body === 'object') {
-    const { redacted, masked } = redactObject(req.body);
-    
+export async function redactRequestBody(req: Request, res: Response, next: NextFunction) {
+  if (!req.body || typeof req.body !== 'object') return next();
+
+  try {
+    const { redacted, masked, kinds } = await redactObjectToVault(req.body, { boundary: 'request' });
+
     if (masked) {
-      console.warn('PII detected and redacted in request body', {
+      logger.warn({
         path: req.path,
         method: req.method,
-        masked: true
-      });
+        masked: true,
+        kinds
+      }, 'PII detected and redacted in request body');
     }
-    
+
     req.body = redacted;
+    next();
+  } catch (error) {
+    logger.error({ err: error }, 'Request redaction error');
+    res.status(500).json({ error: 'Failed to redact request' });
   }
-  
-  next();
 }
 
-// Redact response bodies before sending
+// Redact response bodies before sending. Tokens are only sent once the vault
+// holds their originals, so the body goes out asynchronously.
 export function redactResponseBody(req: Request, res: Response, next: NextFunction) {
   const originalJson = res.json.bind(res);
   
   res.json = function (body: any) {
-    const { redacted, masked } = redactObject(body);
-    
-    if (masked) {
-      console.warn('PII detected and redacted in response body', {
-        path: req.path,
-        method: req.method,
-        masked: true
+    // Set by routes that return cleartext on purpose (detokenization)
+    if (res.locals.skipRedaction) return originalJson(body);
+
+    redactObjectToVault(body, { boundary: 'response' })
+      .then(({ redacted, masked, kinds }) => {
+        if (masked) {
+          logger.warn({
+            path: req.path,
+            method: req.method,
+            masked: true,
+            kinds
+          }, 'PII detected and redacted in response body');
+        }
+
+        originalJson(redacted);
+      })
+      .catch(error => {
+        logger.error({ err: error }, 'Response redaction error');
+        res.status(500);
+        originalJson({ error: 'Failed to redact response' });
       });
-    }
-    
-    return originalJson(redacted);
+
+    return res;
   };
   
   next();
 }
 
-// API Key validation
-export function requireApiKey(req: Request, res: Response, next: NextFunction) {
-  const apiKey = req.headers['x-api-key'];
-  
-  if (!apiKey || apiKey !== process.env.API_KEY) {
-    return res.status(401).json({ error: 'Unauthorized: Invalid or missing API key' });
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireAuth
+      analyst?: Principal;
+    }
   }
-  
-  next();
 }
 
-// Idempotency key handling
-const idempotencyCache = new Map<string, any>();
+// A session token in the query string, accepted only on SSE requests:
+// EventSource cannot set headers. API keys are never read from URLs.
+function streamToken(req: Request): string | undefined {
+  if (!req.headers.accept?.includes('text/event-stream')) return undefined;
+  return typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
+}
+
+// Analyst authentication: an API key (X-API-Key) or a session token
+// (Authorization: Bearer) from POST /api/auth/token
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.analyst) return next();
+
+  try {
+    const authorization = req.headers.authorization;
+    const principal = await authenticate({
+      apiKey: req.headers['x-api-key'] as string | undefined,
+      bearerToken: authorization?.startsWith('Bearer ') ? authorization.slice(7) : streamToken(req)
+    });
+
+    if (!principal) {
+      return res.status(401).json({ error: 'Unauthorized: Invalid or missing credentials' });
+    }
+
+    req.analyst = principal;
+    next();
+  } catch (error) {
+    logger.error({ err: error }, 'Authentication error');
+    res.status(500).json({ error: 'Failed to authenticate' });
+  }
+}
+
+// Authenticate, then require the role and key scopes to grant `permission`
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    requireAuth(req, res, () => {
+      if (!can(req.analyst!, permission)) {
+        return res.status(403).json({
+          error: `Forbidden: ${req.analyst!.role ?? 'integration key'} lacks ${permission}`,
+          status: 'FORBIDDEN',
+          required: permission
+        });
+      }
+      next();
+    });
+  };
+}
+
+// Idempotency-Key handling. Keys are scoped to the caller and bound to the
+// route and body they were first used with; the stored response is replayed
+// with its original status. Duplicates arriving while the first request is
+// still running wait for its result instead of running again. If Redis is
+// down, the route group's failure mode decides between running unguarded and
+// refusing with a 503.
+const IDEMPOTENCY_WAIT_MS = parseInt(process.env.IDEMPOTENCY_WAIT_MS || '10000');
+const IDEMPOTENCY_POLL_MS = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Server errors and rate limits are not final; a retry should run again
+const isReplayable = (status: number) => status < 500 && status !== 429;
+
+export function idempotency(group: RouteGroup) {
+  return (req: Request, res: Response, next: NextFunction) => applyIdempotency(group, req, res, next);
+}
+
+async function applyIdempotency(group: RouteGroup, req: Request, res: Response, next: NextFunction) {
+  const idempotencyKey = req.headers['idempotency-key'] as string | undefined;
 
-export function idempotencyMiddleware(req: Request, res: Response, next: NextFunction) {
-  const idempotencyKey = req.headers['idempotency-key'] as string;
-  
   if (!idempotencyKey) {
     return next();
   }
-  
-  // Check cache for previous result
-  if (idempotencyCache.has(idempotencyKey)) {
-    const cachedResult = idempotencyCache.get(idempotencyKey);
-    return res.status(200).json(cachedResult);
+
+  const scope = req.analyst?.id ?? req.ip ?? 'anonymous';
+  const fingerprint = fingerprintRequest(req.method, req.baseUrl + req.path, req.body);
+
+  let claim: IdempotencyClaim;
+  try {
+    const deadline = Date.now() + IDEMPOTENCY_WAIT_MS;
+    claim = await claimIdempotencyKey(scope, idempotencyKey, fingerprint);
+    while (claim.status === 'in_progress' && Date.now() < deadline) {
+      await sleep(IDEMPOTENCY_POLL_MS);
+      claim = await claimIdempotencyKey(scope, idempotencyKey, fingerprint);
+    }
+  } catch (error) {
+    const mode = failureModeFor(group);
+    recordDegraded('idempotency', group, mode, error);
+    if (mode === 'open') return next();
+
+    const body = storeUnavailableBody('idempotency');
+    res.set('Retry-After', body.retryAfter.toString());
+    return res.status(503).json(body);
   }
-  
+
+  switch (claim.status) {
+    case 'mismatch':
+      idempotencyOutcomes.inc({ outcome: 'mismatch' });
+      return res.status(422).json({
+        error: 'Idempotency-Key was already used with a different request',
+        status: 'IDEMPOTENCY_KEY_REUSED'
+      });
+    case 'in_progress':
+      idempotencyOutcomes.inc({ outcome: 'in_progress' });
+      res.set('Retry-After', '1');
+      return res.status(409).json({
+        error: 'A request with this Idempotency-Key is still in progress',
+        status: 'IDEMPOTENCY_IN_PROGRESS'
+      });
+    case 'replay':
+      idempotencyOutcomes.inc({ outcome: 'replayed' });
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(claim.httpStatus).json(claim.body);
+  }
+
+  idempotencyOutcomes.inc({ outcome: 'executed' });
+  const { token } = claim;
+  let settled = false;
+
+  const settle = (response?: { status: number; body: unknown }) => {
+    if (settled) return;
+    settled = true;
+
+    const pending = response && isReplayable(response.status)
+      ? completeIdempotencyKey(scope, idempotencyKey, token, fingerprint, response)
+      : releaseIdempotencyKey(scope, idempotencyKey, token);
+    pending.catch(err => logger.error({ err }, `Failed to settle idempotency key ${idempotencyKey}`));
+  };
+
   // Store result after response
   const originalJson = res.json.bind(res);
   res.json = function (body: any) {
-    idempotencyCache.set(idempotencyKey, body);
-    // Clear after 1 hour
-    setTimeout(() => idempotencyCache.delete(idempotencyKey), 60 * 60 * 1000);
+    settle({ status: res.statusCode, body });
     return originalJson(body);
   };
-  
+  // Ended without a JSON body (or the client went away first)
+  res.on('close', () => settle());
+
   next();
-}
\ No newline at end of file
+}
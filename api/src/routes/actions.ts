@@ -1,6 +1,15 @@
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
+import { countRecentDisputes } from '../lib/chargebacks.js';
+import { issueOtp, OtpLockedError } from '../lib/otp.js';
+import { StoreUnavailableError, storeUnavailableBody } from '../lib/failurePolicy.js';
+import { OPEN_CASE_STATUSES, slaDeadline } from '../lib/caseLifecycle.js';
+import { appendCaseEvent } from '../lib/auditLog.js';
+import { freezeCard, unfreezeCard, markFalsePositive, type ActionOutcome } from '../lib/actionHandlers.js';
+import { isSupervisor } from '../lib/auth.js';
+import { getNotifier, renderTemplate, OUTREACH_TEMPLATES, type OutreachTemplate } from '../lib/notifier.js';
+import { logger } from '../lib/logger.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -12,6 +21,24 @@ const FreezeCardSchema = z.object({
   reason: z.string().optional()
 });
 
+const UnfreezeCardSchema = z.object({
+  cardId: z.string().uuid(),
+  otp: z.string().length(6).optional(),
+  reason: z.string().min(1)
+});
+
+const IssueOtpSchema = z.object({
+  cardId: z.string().uuid(),
+  action: z.enum(['freeze_card', 'unfreeze_card'])
+});
+
+function sendOutcome(res: Response, outcome: ActionOutcome) {
+  if (outcome.body.retryAfter) {
+    res.setHeader('Retry-After', outcome.body.retryAfter.toString());
+  }
+  return res.status(outcome.httpStatus).json(outcome.body);
+}
+
 const OpenDisputeSchema = z.object({
   txnId: z.string().uuid(),
   reasonCode: z.string(),
@@ -24,98 +51,110 @@ const MarkFalsePositiveSchema = z.object({
   notes: z.string().optional()
 });
 
-// POST /api/action/freeze-card
-router.post('/freeze-card', async (req, res) => {
+const ContactCustomerSchema = z.object({
+  alertId: z.string().uuid(),
+  channel: z.enum(['sms', 'email', 'phone']).default('sms'),
+  template: z.enum(Object.keys(OUTREACH_TEMPLATES) as [OutreachTemplate, ...OutreachTemplate[]])
+    .default('suspicious_transaction'),
+  notes: z.string().optional()
+});
+
+const CustomerResponseSchema = z.object({
+  caseId: z.string().uuid(),
+  response: z.enum(['confirmed_fraud', 'confirmed_legit']),
+  notes: z.string().optional()
+});
+
+// POST /api/action/issue-otp
+router.post('/issue-otp', async (req, res) => {
   try {
-    const data = FreezeCardSchema.parse(req.body);
+    const data = IssueOtpSchema.parse(req.body);
     
-    // Check if card exists
     const card = await prisma.card.findUnique({
       where: { id: data.cardId },
       include: {
         customer: {
-          select: { kyc_level: true }
+          select: { email: true, phone: true }
         }
       }
     });
-
+    
     if (!card) {
       return res.status(404).json({ error: 'Card not found' });
     }
-
-    // Check if already frozen
-    if (card.status === 'frozen') {
-      return res.json({
-        status: 'ALREADY_FROZEN',
-        cardId: data.cardId,
-        message: 'Card is already frozen'
-      });
-    }
-
-    // OTP requirement check
-    const requiresOtp = card.customer.kyc_level >= 3;
     
-    if (requiresOtp && !data.otp) {
-      return res.json({
-        status: 'PENDING_OTP',
-        cardId: data.cardId,
-        message: 'OTP verification required for high-value accounts',
-        requiresOtp: true
-      });
+    const challenge = await issueOtp({
+      cardId: card.id,
+      action: data.action,
+      cardLast4: card.last4,
+      recipient: card.customer.phone || card.customer.email
+    });
+    
+    res.json({
+      status: 'OTP_SENT',
+      cardId: card.id,
+      challengeId: challenge.challengeId,
+      channel: challenge.channel,
+      expiresAt: challenge.expiresAt,
+      message: 'OTP sent to the customer',
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
     }
-
-    // Validate OTP (simple check - in production use real OTP service)
-    if (requiresOtp && data.otp !== '123456') {
-      return res.status(400).json({
-        error: 'Invalid OTP',
-        status: 'OTP_FAILED'
+    if (error instanceof OtpLockedError) {
+      res.setHeader('Retry-After', error.retryAfter.toString());
+      return res.status(429).json({
+        error: 'Too many failed OTP attempts',
+        status: 'OTP_LOCKED',
+        retryAfter: error.retryAfter
       });
     }
+    if (error instanceof StoreUnavailableError) {
+      res.setHeader('Retry-After', error.retryAfter.toString());
+      return res.status(503).json(storeUnavailableBody(error.store));
+    }
+    logger.error({ err: error }, 'Issue OTP error');
+    res.status(500).json({ error: 'Failed to issue OTP' });
+  }
+});
 
-    // Freeze the card
-    const updatedCard = await prisma.card.update({
-      where: { id: data.cardId },
-      data: { status: 'frozen' }
-    });
-
-    // Create case event for audit
-    const caseRecord = await prisma.case.create({
-      data: {
-        customer_id: card.customer_id,
-        type: 'card_freeze',
-        status: 'completed',
-        reason_code: data.reason || 'suspected_fraud'
-      }
-    });
+// POST /api/action/freeze-card
+router.post('/freeze-card', async (req, res) => {
+  try {
+    const data = FreezeCardSchema.parse(req.body);
+    
+    sendOutcome(res, await freezeCard({ ...data, actor: req.analyst!.id }));
 
-    await prisma.caseEvent.create({
-      data: {
-        case_id: caseRecord.id,
-        actor: 'system',
-        action: 'card_frozen',
-        payload_json: {
-          cardId: data.cardId,
-          cardLast4: card.last4,
-          otpVerified: requiresOtp
-        }
-      }
-    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Freeze card error');
+    res.status(500).json({ error: 'Failed to freeze card' });
+  }
+});
 
-    res.json({
-      status: 'FROZEN',
-      cardId: updatedCard.id,
-      cardLast4: card.last4,
-      caseId: caseRecord.id,
-      message: 'Card successfully frozen',
-      timestamp: new Date().toISOString()
-    });
+// POST /api/action/unfreeze-card
+router.post('/unfreeze-card', async (req, res) => {
+  try {
+    const data = UnfreezeCardSchema.parse(req.body);
+    
+    // Open fraud cases only allow a supervisor to unfreeze
+    sendOutcome(res, await unfreezeCard({
+      ...data,
+      actor: req.analyst!.id,
+      supervisorId: isSupervisor(req.analyst!) ? req.analyst!.id : undefined
+    }));
 
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Validation failed', details: error.errors });
     }
-    console.error('Freeze card error:', error);
-    res.status(500).json({ error: 'Failed to freeze card' });
+    logger.error({ err: error }, 'Unfreeze card error');
+    res.status(500).json({ error: 'Failed to unfreeze card' });
   }
 });
 
@@ -150,7 +189,7 @@ router.post('/open-dispute', async (req, res) => {
       where: {
         txn_id: data.txnId,
         type: 'dispute',
-        status: { in: ['open', 'investigating'] }
+        status: { in: OPEN_CASE_STATUSES }
       }
     });
 
@@ -162,6 +201,9 @@ router.post('/open-dispute', async (req, res) => {
       });
     }
 
+    // Friendly-fraud check: customers who dispute often get flagged for review
+    const disputeHistory = await countRecentDisputes(transaction.customer_id);
+
     // Create dispute case
     const disputeCase = await prisma.case.create({
       data: {
@@ -169,23 +211,23 @@ router.post('/open-dispute', async (req, res) => {
         txn_id: data.txnId,
         type: 'dispute',
         status: 'open',
-        reason_code: data.reasonCode
+        reason_code: data.reasonCode,
+        sla_due_at: slaDeadline(data.reasonCode, new Date())
       }
     });
 
     // Create case event
-    await prisma.caseEvent.create({
-      data: {
-        case_id: disputeCase.id,
-        actor: 'system',
-        action: 'dispute_opened',
-        payload_json: {
-          txnId: data.txnId,
-          merchant: transaction.merchant,
-          amount: transaction.amount_cents,
-          reasonCode: data.reasonCode,
-          description: data.description
-        }
+    await appendCaseEvent({
+      case_id: disputeCase.id,
+      actor: req.analyst!.id,
+      action: 'dispute_opened',
+      payload_json: {
+        txnId: data.txnId,
+        merchant: transaction.merchant,
+        amount: transaction.amount_cents,
+        reasonCode: data.reasonCode,
+        description: data.description,
+        disputeHistory
       }
     });
 
@@ -195,7 +237,11 @@ router.post('/open-dispute', async (req, res) => {
       txnId: data.txnId,
       merchant: transaction.merchant,
       amount: transaction.amount_cents,
-      message: 'Dispute case opened successfully',
+      slaDueAt: disputeCase.sla_due_at,
+      frequentDisputer: disputeHistory.frequentDisputer,
+      message: disputeHistory.frequentDisputer
+        ? 'Dispute case opened; customer flagged for frequent disputes'
+        : 'Dispute case opened successfully',
       timestamp: new Date().toISOString()
     });
 
@@ -203,7 +249,7 @@ router.post('/open-dispute', async (req, res) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Validation failed', details: error.errors });
     }
-    console.error('Open dispute error:', error);
+    logger.error({ err: error }, 'Open dispute error');
     res.status(500).json({ error: 'Failed to open dispute' });
   }
 });
@@ -213,12 +259,30 @@ router.post('/mark-false-positive', async (req, res) => {
   try {
     const data = MarkFalsePositiveSchema.parse(req.body);
 
-    // Get alert
+    sendOutcome(res, await markFalsePositive({ ...data, actor: req.analyst!.id }));
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Mark false positive error');
+    res.status(500).json({ error: 'Failed to mark false positive' });
+  }
+});
+
+// POST /api/action/contact-customer
+router.post('/contact-customer', async (req, res) => {
+  try {
+    const data = ContactCustomerSchema.parse(req.body);
+
     const alert = await prisma.alert.findUnique({
       where: { id: data.alertId },
       include: {
         customer: {
-          select: { id: true, name: true }
+          select: { id: true, name: true, email: true, phone: true }
+        },
+        transaction: {
+          select: { id: true, merchant: true, amount_cents: true, currency: true }
         }
       }
     });
@@ -227,40 +291,235 @@ router.post('/mark-false-positive', async (req, res) => {
       return res.status(404).json({ error: 'Alert not found' });
     }
 
-    // Update alert status
-    const updatedAlert = await prisma.alert.update({
-      where: { id: data.alertId },
-      data: { status: 'false_positive' }
+    if (alert.status !== 'open') {
+      return res.status(409).json({
+        error: `Alert is ${alert.status}`,
+        status: 'ALERT_NOT_OPEN'
+      });
+    }
+
+    const recipient = data.channel === 'email' ? alert.customer.email : alert.customer.phone;
+    if (!recipient) {
+      return res.status(422).json({
+        error: `Customer has no contact for channel ${data.channel}`,
+        status: 'NO_CONTACT'
+      });
+    }
+
+    // Repeat attempts on the same alert are added to its open inquiry
+    const existing = await prisma.case.findFirst({
+      where: {
+        customer_id: alert.customer_id,
+        type: 'inquiry',
+        status: 'open',
+        events: {
+          some: {
+            action: 'customer_contacted',
+            payload_json: { path: ['alertId'], equals: data.alertId }
+          }
+        }
+      }
     });
 
-    // Create case for audit trail
-    const caseRecord = await prisma.case.create({
+    const inquiry = existing ?? await prisma.case.create({
       data: {
         customer_id: alert.customer_id,
-        type: 'false_positive',
-        status: 'closed',
-        reason_code: 'verified_legitimate'
+        txn_id: alert.suspect_txn_id,
+        type: 'inquiry',
+        status: 'open',
+        reason_code: 'customer_outreach'
       }
     });
 
-    await prisma.caseEvent.create({
-      data: {
-        case_id: caseRecord.id,
-        actor: 'system',
-        action: 'marked_false_positive',
+    const amount = alert.transaction
+      ? `${alert.transaction.currency} ${(alert.transaction.amount_cents / 100).toFixed(2)}`
+      : 'a recent amount';
+
+    const notifier = getNotifier();
+    let outcome: 'sent' | 'failed' = 'failed';
+    let messageId: string | null = null;
+
+    try {
+      const sent = await notifier.send({
+        channel: data.channel,
+        recipient,
+        template: data.template,
+        text: renderTemplate(data.template, {
+          name: alert.customer.name.split(' ')[0],
+          amount,
+          merchant: alert.transaction?.merchant ?? 'a merchant'
+        })
+      });
+      outcome = sent.delivered ? 'sent' : 'failed';
+      messageId = sent.messageId;
+    } catch (error) {
+      logger.error({ err: error }, 'Customer notifier error');
+    }
+
+    await appendCaseEvent({
+      case_id: inquiry.id,
+      actor: req.analyst!.id,
+      action: 'customer_contacted',
+      payload_json: {
+        alertId: data.alertId,
+        channel: data.channel,
+        template: data.template,
+        notifier: notifier.name,
+        outcome,
+        messageId,
+        notes: data.notes
+      }
+    });
+
+    if (outcome === 'failed') {
+      return res.status(502).json({
+        error: 'Failed to deliver message to customer',
+        status: 'CONTACT_FAILED',
+        caseId: inquiry.id
+      });
+    }
+
+    res.json({
+      status: 'CONTACTED',
+      alertId: data.alertId,
+      caseId: inquiry.id,
+      channel: data.channel,
+      messageId,
+      message: 'Customer contacted, awaiting response',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Contact customer error');
+    res.status(500).json({ error: 'Failed to contact customer' });
+  }
+});
+
+// Thrown inside the response transaction to roll it back
+class AlertResolvedError extends Error {
+  constructor() {
+    super('Alert is no longer open');
+    this.name = 'AlertResolvedError';
+  }
+}
+
+// POST /api/action/contact-customer/response
+router.post('/contact-customer/response', async (req, res) => {
+  try {
+    const data = CustomerResponseSchema.parse(req.body);
+
+    const inquiry = await prisma.case.findUnique({
+      where: { id: data.caseId },
+      include: {
+        events: {
+          where: { action: 'customer_contacted' },
+          orderBy: { seq: 'asc' },
+          take: 1
+        }
+      }
+    });
+
+    if (!inquiry || inquiry.type !== 'inquiry') {
+      return res.status(404).json({ error: 'Inquiry case not found' });
+    }
+
+    if (inquiry.status !== 'open') {
+      return res.json({
+        status: 'ALREADY_RESOLVED',
+        caseId: inquiry.id,
+        message: 'Customer response already recorded'
+      });
+    }
+
+    const alertId = (inquiry.events[0]?.payload_json as { alertId?: string } | null)?.alertId;
+    const alert = alertId ? await prisma.alert.findUnique({ where: { id: alertId } }) : null;
+
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    const confirmedFraud = data.response === 'confirmed_fraud';
+    const alertStatus = confirmedFraud ? 'confirmed_fraud' : 'false_positive';
+
+    // Closing the inquiry and moving the alert are conditional, so of two
+    // concurrent responses only one records anything
+    const recorded = await prisma.$transaction(async (tx) => {
+      const inquiryClosed = await tx.case.updateMany({
+        where: { id: inquiry.id, status: 'open' },
+        data: { status: 'closed', closed_at: new Date() }
+      });
+      if (inquiryClosed.count === 0) return { resolved: 'inquiry' as const };
+
+      const alertMoved = await tx.alert.updateMany({
+        where: { id: alert.id, status: 'open' },
+        data: { status: alertStatus }
+      });
+      // Rolls back the inquiry close
+      if (alertMoved.count === 0) throw new AlertResolvedError();
+
+      // Confirmed fraud starts a fraud case through the normal lifecycle
+      const fraudCase = confirmedFraud
+        ? await tx.case.create({
+            data: {
+              customer_id: alert.customer_id,
+              txn_id: alert.suspect_txn_id,
+              type: 'fraud',
+              status: 'open',
+              reason_code: '10.4',
+              sla_due_at: slaDeadline('10.4', new Date())
+            }
+          })
+        : null;
+
+      await appendCaseEvent({
+        case_id: inquiry.id,
+        actor: req.analyst!.id,
+        action: 'customer_responded',
         payload_json: {
-          alertId: data.alertId,
-          originalRisk: alert.risk,
+          alertId: alert.id,
+          response: data.response,
+          alertStatus,
+          fraudCaseId: fraudCase?.id ?? null,
           notes: data.notes
         }
+      }, tx);
+
+      if (fraudCase) {
+        await appendCaseEvent({
+          case_id: fraudCase.id,
+          actor: req.analyst!.id,
+          action: 'fraud_case_opened',
+          payload_json: {
+            alertId: alert.id,
+            inquiryCaseId: inquiry.id,
+            txnId: alert.suspect_txn_id
+          }
+        }, tx);
       }
+
+      return { resolved: null, fraudCase };
     });
 
+    if (recorded.resolved === 'inquiry') {
+      return res.json({
+        status: 'ALREADY_RESOLVED',
+        caseId: inquiry.id,
+        message: 'Customer response already recorded'
+      });
+    }
+    const { fraudCase } = recorded;
+
     res.json({
-      status: 'CLOSED',
-      alertId: updatedAlert.id,
-      caseId: caseRecord.id,
-      message: 'Alert marked as false positive',
+      status: confirmedFraud ? 'CONFIRMED_FRAUD' : 'CONFIRMED_LEGIT',
+      alertId: alert.id,
+      caseId: inquiry.id,
+      fraudCaseId: fraudCase?.id ?? null,
+      message: confirmedFraud
+        ? 'Customer confirmed fraud; fraud case opened'
+        : 'Customer confirmed transaction; alert marked as false positive',
       timestamp: new Date().toISOString()
     });
 
@@ -268,8 +527,14 @@ router.post('/mark-false-positive', async (req, res) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Validation failed', details: error.errors });
     }
-    console.error('Mark false positive error:', error);
-    res.status(500).json({ error: 'Failed to mark false positive' });
+    if (error instanceof AlertResolvedError) {
+      return res.status(409).json({
+        error: 'Alert was resolved by another action, the inquiry is left open',
+        status: 'ALERT_NOT_OPEN'
+      });
+    }
+    logger.error({ err: error }, 'Customer response error');
+    res.status(500).json({ error: 'Failed to record customer response' });
   }
 });
 
@@ -1,11 +1,22 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { requirePermission } from '../middleware/security.js';
+import { createAlert } from '../agents/autoTriage.js';
+import { logger } from '../lib/logger.js';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+const CreateAlertSchema = z.object({
+  customerId: z.string().uuid(),
+  suspectTxnId: z.string().uuid().optional(),
+  risk: z.enum(['low', 'medium', 'high']),
+  reason: z.string().optional()
+});
+
 // GET /api/alerts
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('cases:read'), async (req, res) => {
   try {
     const alerts = await prisma.alert.findMany({
       where: { status: 'open' },
@@ -15,6 +26,18 @@ router.get('/', async (req, res) => {
             name: true,
             email: true
           }
+        },
+        triage_runs: {
+          select: {
+            id: true,
+            risk: true,
+            score: true,
+            recommendation: true,
+            trigger: true,
+            ended_at: true
+          },
+          orderBy: { started_at: 'desc' },
+          take: 1
         }
       },
       orderBy: { created_at: 'desc' },
@@ -23,9 +46,44 @@ router.get('/', async (req, res) => {
 
     res.json({ alerts });
   } catch (error) {
-    console.error('Alerts error:', error);
+    logger.error({ err: error }, 'Alerts error');
     res.status(500).json({ error: 'Failed to load alerts' });
   }
 });
 
-export default router;
\ No newline at end of file
+// POST /api/alerts - auto-triaged when its risk is in AUTO_TRIAGE_RISKS
+router.post('/', requirePermission('alerts:write'), async (req, res) => {
+  try {
+    const data = CreateAlertSchema.parse(req.body);
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: data.customerId },
+      select: { id: true }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const { alert, runId } = await createAlert({
+      customer_id: data.customerId,
+      suspect_txn_id: data.suspectTxnId,
+      risk: data.risk,
+      reason: data.reason
+    });
+
+    res.status(201).json({
+      alert,
+      runId,
+      autoTriage: runId !== null
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Create alert error');
+    res.status(500).json({ error: 'Failed to create alert' });
+  }
+});
+
+export default router;
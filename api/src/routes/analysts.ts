@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { ROLES } from '../lib/auth.js';
+import { createApiKey, describeKey, ROLE_DEFAULT_SCOPES } from '../lib/apiKeys.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const CreateAnalystSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_.-]{3,64}$/, 'lowercase letters, digits, _ . - (3-64 chars)'),
+  name: z.string().min(1),
+  role: z.enum(ROLES).default('analyst')
+});
+
+const UpdateAnalystSchema = z.object({
+  name: z.string().min(1).optional(),
+  role: z.enum(ROLES).optional(),
+  active: z.boolean().optional()
+});
+
+const analystFields = { id: true, name: true, role: true, active: true, created_at: true, updated_at: true };
+
+// GET /api/analysts
+router.get('/', async (req, res) => {
+  try {
+    const analysts = await prisma.analyst.findMany({
+      select: analystFields,
+      orderBy: { created_at: 'asc' }
+    });
+
+    res.json({ items: analysts });
+  } catch (error) {
+    logger.error({ err: error }, 'List analysts error');
+    res.status(500).json({ error: 'Failed to list analysts' });
+  }
+});
+
+// POST /api/analysts - also issues a first API key with the role's default scopes
+router.post('/', async (req, res) => {
+  try {
+    const data = CreateAnalystSchema.parse(req.body);
+
+    const analyst = await prisma.analyst.create({
+      data,
+      select: analystFields
+    });
+
+    const { key, apiKey } = await createApiKey({
+      name: `${analyst.id} default`,
+      scopes: ROLE_DEFAULT_SCOPES[analyst.role],
+      analystId: analyst.id,
+      createdBy: req.analyst!.id
+    });
+
+    res.status(201).json({
+      status: 'CREATED',
+      analyst,
+      key: describeKey(key),
+      apiKey,
+      message: 'Store the API key now, it cannot be shown again',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Analyst already exists', status: 'CONFLICT' });
+    }
+    logger.error({ err: error }, 'Create analyst error');
+    res.status(500).json({ error: 'Failed to create analyst' });
+  }
+});
+
+// PATCH /api/analysts/:id - change role, rename or deactivate
+router.patch('/:id', async (req, res) => {
+  try {
+    const data = UpdateAnalystSchema.parse(req.body);
+
+    // Keep an admin from locking themselves out
+    if (req.params.id === req.analyst!.id && (data.role !== undefined || data.active !== undefined)) {
+      return res.status(409).json({
+        error: 'Admins cannot change their own role or deactivate themselves',
+        status: 'SELF_CHANGE'
+      });
+    }
+
+    const existing = await prisma.analyst.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Analyst not found' });
+    }
+
+    const analyst = await prisma.analyst.update({
+      where: { id: req.params.id },
+      data,
+      select: analystFields
+    });
+
+    res.json({ status: 'UPDATED', analyst, timestamp: new Date().toISOString() });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Update analyst error');
+    res.status(500).json({ error: 'Failed to update analyst' });
+  }
+});
+
+export default router;
@@ -0,0 +1,160 @@
+import { Router, type Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import {
+  API_KEY_SCOPES,
+  ApiKeyError,
+  createApiKey,
+  describeKey,
+  revokeApiKey,
+  rotateApiKey,
+  KEY_ROTATION_GRACE_SECONDS
+} from '../lib/apiKeys.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ListKeysSchema = z.object({
+  analystId: z.string().optional(),
+  includeInactive: z.enum(['true', 'false']).default('false')
+});
+
+const CreateKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  // Omit for an integration key (ingest:write, insights:read only)
+  analystId: z.string().optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+});
+
+const RotateKeySchema = z.object({
+  graceSeconds: z.number().int().min(0).max(7 * 24 * 60 * 60).default(KEY_ROTATION_GRACE_SECONDS)
+});
+
+const KEY_ERROR_STATUS: Record<ApiKeyError['code'], number> = {
+  NOT_FOUND: 404,
+  ANALYST_NOT_FOUND: 404,
+  REVOKED: 409,
+  INVALID_SCOPES: 422
+};
+
+function sendKeyError(res: Response, error: ApiKeyError) {
+  return res.status(KEY_ERROR_STATUS[error.code]).json({ error: error.message, status: error.code });
+}
+
+// GET /api/keys
+router.get('/', async (req, res) => {
+  try {
+    const query = ListKeysSchema.parse(req.query);
+    const now = new Date();
+
+    const keys = await prisma.apiKey.findMany({
+      where: {
+        analyst_id: query.analystId,
+        ...(query.includeInactive === 'true'
+          ? {}
+          : { revoked_at: null, OR: [{ expires_at: null }, { expires_at: { gt: now } }] })
+      },
+      orderBy: { created_at: 'desc' }
+    });
+
+    res.json({ items: keys.map(describeKey) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'List API keys error');
+    res.status(500).json({ error: 'Failed to list API keys' });
+  }
+});
+
+// POST /api/keys - the plaintext key is only returned in this response
+router.post('/', async (req, res) => {
+  try {
+    const data = CreateKeySchema.parse(req.body);
+
+    const { key, apiKey } = await createApiKey({
+      name: data.name,
+      scopes: data.scopes,
+      analystId: data.analystId,
+      expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * DAY_MS) : null,
+      createdBy: req.analyst!.id
+    });
+
+    res.status(201).json({
+      status: 'CREATED',
+      key: describeKey(key),
+      apiKey,
+      message: 'Store the API key now, it cannot be shown again',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof ApiKeyError) {
+      return sendKeyError(res, error);
+    }
+    logger.error({ err: error }, 'Create API key error');
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+// POST /api/keys/:id/rotate - new key now, old one expires after the grace period
+router.post('/:id/rotate', async (req, res) => {
+  try {
+    const data = RotateKeySchema.parse(req.body ?? {});
+
+    const { key, apiKey, previous } = await rotateApiKey(req.params.id, req.analyst!.id, data.graceSeconds);
+
+    res.status(201).json({
+      status: 'ROTATED',
+      key: describeKey(key),
+      apiKey,
+      previous: describeKey(previous),
+      message: `Store the new API key now; the old one stops working at ${previous.expires_at?.toISOString()}`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof ApiKeyError) {
+      return sendKeyError(res, error);
+    }
+    logger.error({ err: error }, 'Rotate API key error');
+    res.status(500).json({ error: 'Failed to rotate API key' });
+  }
+});
+
+// POST /api/keys/:id/revoke - takes effect immediately, including for
+// session tokens issued from the key
+router.post('/:id/revoke', async (req, res) => {
+  try {
+    if (req.params.id === req.analyst!.keyId) {
+      return res.status(409).json({
+        error: 'Cannot revoke the key this request was made with',
+        status: 'SELF_REVOKE'
+      });
+    }
+
+    const key = await revokeApiKey(req.params.id, req.analyst!.id);
+
+    res.json({
+      status: 'REVOKED',
+      key: describeKey(key),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return sendKeyError(res, error);
+    }
+    logger.error({ err: error }, 'Revoke API key error');
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+export default router;
@@ -0,0 +1,231 @@
+import { Router, type Response } from 'express';
+import { PrismaClient, type ApprovalRequest } from '@prisma/client';
+import { z } from 'zod';
+import {
+  APPROVAL_ACTIONS,
+  ApprovalDecisionError,
+  decideApproval,
+  expireApprovals,
+  recordApprovalResult,
+  type ApprovalDecisionCode
+} from '../lib/approvals.js';
+import { freezeCard, unfreezeCard, type ActionOutcome } from '../lib/actionHandlers.js';
+import { isSupervisor, type Principal } from '../lib/auth.js';
+import { requirePermission } from '../middleware/security.js';
+import { createBulkJob, queuedResponse, type BulkAction, type BulkTarget } from '../lib/bulkActions.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const ListApprovalsSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'expired']).optional(),
+  action: z.enum(APPROVAL_ACTIONS).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+const ApproveSchema = z.object({
+  note: z.string().optional()
+});
+
+const RejectSchema = z.object({
+  note: z.string().min(1)
+});
+
+const DECISION_ERROR_STATUS: Record<ApprovalDecisionCode, number> = {
+  NOT_FOUND: 404,
+  SAME_ANALYST: 403,
+  SUPERVISOR_REQUIRED: 403,
+  EXPIRED: 410,
+  ALREADY_DECIDED: 409
+};
+
+function sendDecisionError(res: Response, error: ApprovalDecisionError) {
+  return res.status(DECISION_ERROR_STATUS[error.code]).json({
+    error: error.message,
+    status: error.code,
+    approvalStatus: error.approvalStatus
+  });
+}
+
+function serialize(approval: ApprovalRequest) {
+  const { targets, ...params } = approval.params_json as Record<string, any>;
+  return {
+    id: approval.id,
+    action: approval.action,
+    status: approval.status,
+    targetId: approval.target_id,
+    targetCount: Array.isArray(targets) ? targets.length : undefined,
+    params,
+    requestedBy: approval.requested_by,
+    checkerRole: approval.checker_role,
+    decidedBy: approval.decided_by,
+    decisionNote: approval.decision_note,
+    result: approval.result_json,
+    caseId: approval.case_id,
+    createdAt: approval.created_at,
+    expiresAt: approval.expires_at,
+    decidedAt: approval.decided_at
+  };
+}
+
+// Run the action an approved request was holding, as its maker asked for it
+async function executeApproval(approval: ApprovalRequest, approver: Principal): Promise<ActionOutcome> {
+  const params = approval.params_json as Record<string, any>;
+  const grant = {
+    approvalId: approval.id,
+    approvedBy: approval.decided_by!,
+    otpChallengeId: params.otpChallengeId ?? null
+  };
+
+  switch (approval.action) {
+    case 'freeze_card':
+      return freezeCard({
+        cardId: params.cardId,
+        reason: params.reason ?? undefined,
+        parentCaseId: params.parentCaseId ?? undefined,
+        actor: approval.requested_by,
+        approval: grant
+      });
+    case 'unfreeze_card':
+      return unfreezeCard({
+        cardId: params.cardId,
+        reason: params.reason,
+        // A supervisor approving also covers fraud cases opened since the request
+        supervisorId: params.supervisorId ?? (isSupervisor(approver) ? approver.id : undefined),
+        actor: approval.requested_by,
+        approval: grant
+      });
+    case 'bulk_mark_false_positive':
+    case 'bulk_freeze_card': {
+      const bulkJob = await createBulkJob({
+        action: params.action as BulkAction,
+        requestedBy: approval.requested_by,
+        targets: params.targets as BulkTarget[],
+        options: { ...params.options, approvalId: approval.id, approvedBy: grant.approvedBy }
+      });
+      return { ok: true, httpStatus: 202, body: queuedResponse(bulkJob) };
+    }
+    default:
+      throw new Error(`Unknown approval action ${approval.action}`);
+  }
+}
+
+// GET /api/approvals
+router.get('/', requirePermission('cases:read'), async (req, res) => {
+  try {
+    const query = ListApprovalsSchema.parse(req.query);
+
+    await expireApprovals();
+
+    const approvals = await prisma.approvalRequest.findMany({
+      where: { status: query.status, action: query.action },
+      orderBy: { created_at: 'desc' },
+      take: query.limit
+    });
+
+    res.json({ items: approvals.map(serialize) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'List approvals error');
+    res.status(500).json({ error: 'Failed to list approvals' });
+  }
+});
+
+// GET /api/approvals/:id
+router.get('/:id', requirePermission('cases:read'), async (req, res) => {
+  try {
+    await expireApprovals();
+
+    const approval = await prisma.approvalRequest.findUnique({
+      where: { id: req.params.id },
+      include: {
+        case: {
+          include: { events: { orderBy: { seq: 'asc' } } }
+        }
+      }
+    });
+
+    if (!approval) {
+      return res.status(404).json({ error: 'Approval request not found' });
+    }
+
+    res.json({ ...serialize(approval), history: approval.case.events });
+  } catch (error) {
+    logger.error({ err: error }, 'Approval error');
+    res.status(500).json({ error: 'Failed to load approval request' });
+  }
+});
+
+// POST /api/approvals/:id/approve - the second analyst signs off and the action runs
+router.post('/:id/approve', requirePermission('approvals:decide'), async (req, res) => {
+  try {
+    const data = ApproveSchema.parse(req.body);
+
+    const approval = await decideApproval(req.params.id, 'approved', req.analyst!, data.note);
+    let outcome: ActionOutcome;
+    try {
+      outcome = await executeApproval(approval, req.analyst!);
+    } catch (error) {
+      // Still close out the request so its history shows what happened
+      await recordApprovalResult(approval, {
+        ok: false,
+        httpStatus: 500,
+        body: { status: 'ERROR', error: error instanceof Error ? error.message : 'Unknown error' }
+      });
+      throw error;
+    }
+    await recordApprovalResult(approval, outcome);
+
+    res.json({
+      status: 'APPROVED',
+      approvalId: approval.id,
+      action: approval.action,
+      approvedBy: req.analyst!.id,
+      executed: outcome.ok,
+      result: outcome.body,
+      message: outcome.ok ? 'Approved and executed' : 'Approved, but the action did not complete',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof ApprovalDecisionError) {
+      return sendDecisionError(res, error);
+    }
+    logger.error({ err: error }, 'Approve error');
+    res.status(500).json({ error: 'Failed to approve request' });
+  }
+});
+
+// POST /api/approvals/:id/reject
+router.post('/:id/reject', requirePermission('approvals:decide'), async (req, res) => {
+  try {
+    const data = RejectSchema.parse(req.body);
+
+    const approval = await decideApproval(req.params.id, 'rejected', req.analyst!, data.note);
+
+    res.json({
+      status: 'REJECTED',
+      approvalId: approval.id,
+      action: approval.action,
+      rejectedBy: req.analyst!.id,
+      message: 'Request rejected, the action will not run',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof ApprovalDecisionError) {
+      return sendDecisionError(res, error);
+    }
+    logger.error({ err: error }, 'Reject error');
+    res.status(500).json({ error: 'Failed to reject request' });
+  }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/security.js';
+import { issueSessionToken, can, PERMISSIONS, AUTH_TOKEN_TTL_SECONDS } from '../lib/auth.js';
+
+const router = Router();
+
+// POST /api/auth/token - exchange an analyst's API key (or a live token) for
+// a session token; the token carries the key's scopes and ends with the key
+router.post('/token', requireAuth, (req, res) => {
+  const analyst = req.analyst!;
+
+  if (analyst.role === null) {
+    return res.status(403).json({
+      error: 'Integration keys cannot open sessions',
+      status: 'FORBIDDEN'
+    });
+  }
+
+  const { token, expiresAt } = issueSessionToken(analyst);
+
+  res.json({
+    token,
+    tokenType: 'Bearer',
+    expiresIn: AUTH_TOKEN_TTL_SECONDS,
+    expiresAt: expiresAt.toISOString(),
+    analyst: { id: analyst.id, name: analyst.name, role: analyst.role },
+    scopes: analyst.scopes
+  });
+});
+
+// GET /api/auth/me
+router.get('/me', requireAuth, (req, res) => {
+  const analyst = req.analyst!;
+
+  res.json({
+    id: analyst.id,
+    name: analyst.name,
+    role: analyst.role,
+    authenticatedVia: analyst.via,
+    keyId: analyst.keyId,
+    scopes: analyst.scopes,
+    permissions: PERMISSIONS.filter(p => can(analyst, p))
+  });
+});
+
+export default router;
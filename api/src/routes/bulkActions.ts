@@ -0,0 +1,247 @@
+import { Router } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import {
+  createBulkJob,
+  queuedResponse,
+  BulkLimitError,
+  BULK_MAX_ITEMS,
+  type BulkAction,
+  type BulkTarget
+} from '../lib/bulkActions.js';
+import { requiresApproval, requestApproval } from '../lib/approvals.js';
+import { requirePermission } from '../middleware/security.js';
+import { pendingApproval, verifyActionOtp, type ActionOutcome } from '../lib/actionHandlers.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const AlertFilterSchema = z.object({
+  risk: z.enum(['low', 'medium', 'high']).optional(),
+  reason: z.string().optional(),
+  customerId: z.string().uuid().optional(),
+  merchant: z.string().optional(),
+  createdAfter: z.string().datetime().optional(),
+  createdBefore: z.string().datetime().optional()
+});
+
+const BulkMarkFalsePositiveSchema = z.object({
+  alertIds: z.array(z.string().uuid()).min(1).optional(),
+  filter: AlertFilterSchema.optional(),
+  notes: z.string().optional()
+}).refine(d => !!d.alertIds !== !!d.filter, {
+  message: 'Provide either alertIds or filter'
+});
+
+const BulkFreezeCardSchema = z.object({
+  customerIds: z.array(z.string().uuid()).min(1).max(BULK_MAX_ITEMS),
+  reason: z.string().optional(),
+  // OTPs for KYC-3 cards, keyed by cardId; verified on receipt and never
+  // stored. Cards without one stay PENDING_OTP
+  otps: z.record(z.string().uuid(), z.string().length(6)).optional()
+});
+
+// Queue the job, or hold it for a second analyst when bulk actions need approval
+async function queueOrRequestApproval(params: {
+  action: BulkAction;
+  requestedBy: string;
+  targets: BulkTarget[];
+  options: Prisma.InputJsonObject;
+}): Promise<ActionOutcome> {
+  if (params.targets.length > BULK_MAX_ITEMS) throw new BulkLimitError(params.targets.length);
+
+  if (await requiresApproval(`bulk_${params.action}`)) {
+    return pendingApproval(await requestApproval({
+      action: `bulk_${params.action}`,
+      requestedBy: params.requestedBy,
+      params: {
+        action: params.action,
+        targets: params.targets as unknown as Prisma.InputJsonArray,
+        options: params.options
+      }
+    }));
+  }
+
+  const bulkJob = await createBulkJob(params);
+  return { ok: true, httpStatus: 202, body: queuedResponse(bulkJob) };
+}
+
+// POST /api/action/bulk/mark-false-positive
+router.post('/mark-false-positive', requirePermission('actions:write'), async (req, res) => {
+  try {
+    const data = BulkMarkFalsePositiveSchema.parse(req.body);
+
+    let alertIds = data.alertIds ?? [];
+    if (data.filter) {
+      const f = data.filter;
+      const alerts = await prisma.alert.findMany({
+        where: {
+          status: 'open',
+          risk: f.risk,
+          reason: f.reason,
+          customer_id: f.customerId,
+          transaction: f.merchant ? { merchant: f.merchant } : undefined,
+          created_at: {
+            gte: f.createdAfter ? new Date(f.createdAfter) : undefined,
+            lte: f.createdBefore ? new Date(f.createdBefore) : undefined
+          }
+        },
+        select: { id: true },
+        orderBy: { created_at: 'asc' },
+        take: BULK_MAX_ITEMS + 1
+      });
+      alertIds = alerts.map(a => a.id);
+    }
+
+    if (alertIds.length === 0) {
+      return res.status(422).json({ error: 'No alerts match', status: 'NO_ITEMS' });
+    }
+
+    const targets: BulkTarget[] = Array.from(new Set(alertIds)).map(id => ({ type: 'alert', id }));
+
+    const outcome = await queueOrRequestApproval({
+      action: 'mark_false_positive',
+      requestedBy: req.analyst!.id,
+      targets,
+      options: { notes: data.notes, filter: data.filter, alertIds: data.alertIds }
+    });
+
+    res.status(outcome.httpStatus).json(outcome.body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof BulkLimitError) {
+      return res.status(422).json({ error: error.message, status: 'TOO_MANY_ITEMS', limit: BULK_MAX_ITEMS });
+    }
+    logger.error({ err: error }, 'Bulk mark false positive error');
+    res.status(500).json({ error: 'Failed to queue bulk mark false positive' });
+  }
+});
+
+// POST /api/action/bulk/freeze-card - freezes every active card of each customer
+router.post('/freeze-card', requirePermission('actions:write'), async (req, res) => {
+  try {
+    const data = BulkFreezeCardSchema.parse(req.body);
+    const customerIds = Array.from(new Set(data.customerIds));
+
+    const cards = await prisma.card.findMany({
+      where: { customer_id: { in: customerIds }, status: 'active' },
+      select: { id: true, customer_id: true, customer: { select: { kyc_level: true } } },
+      orderBy: { created_at: 'asc' }
+    });
+
+    // Refuse an oversized job before any code is consumed
+    if (cards.length > BULK_MAX_ITEMS) throw new BulkLimitError(cards.length);
+
+    // Codes are checked now, as for a single freeze, and only the challenge
+    // they consumed is kept for the job. Every code is checked before any is
+    // consumed, so one wrong code does not burn the others: the caller fixes
+    // it and resends the same set.
+    const targets: BulkTarget[] = [];
+    const withOtp: { cardId: string; otp: string }[] = [];
+    for (const customerId of customerIds) {
+      const customerCards = cards.filter(c => c.customer_id === customerId);
+      if (customerCards.length === 0) {
+        targets.push({ type: 'customer', id: customerId, status: 'NO_ACTIVE_CARDS' });
+      }
+      for (const card of customerCards) {
+        targets.push({ type: 'card', id: card.id });
+        const otp = data.otps?.[card.id];
+        if (otp && card.customer.kyc_level >= 3) withOtp.push({ cardId: card.id, otp });
+      }
+    }
+
+    const failures: Record<string, unknown>[] = [];
+    for (const { cardId, otp } of withOtp) {
+      const checked = await verifyActionOtp(cardId, 'freeze_card', otp, false);
+      if (!('failure' in checked)) continue;
+      // The OTP store being down fails the whole request
+      if (checked.failure.httpStatus === 503) {
+        return res.status(503).json(checked.failure.body);
+      }
+      failures.push({ cardId, ...checked.failure.body });
+    }
+    if (failures.length > 0) {
+      return res.status(422).json({
+        error: 'Some OTPs did not verify; none were used',
+        status: 'OTP_FAILED',
+        failures
+      });
+    }
+
+    const otpChallengeIds: Record<string, string> = {};
+    for (const { cardId, otp } of withOtp) {
+      const verified = await verifyActionOtp(cardId, 'freeze_card', otp);
+      if ('failure' in verified) {
+        if (verified.failure.httpStatus === 503) {
+          return res.status(503).json(verified.failure.body);
+        }
+        // Replaced or used by another request since the check
+        const target = targets.find(t => t.type === 'card' && t.id === cardId)!;
+        target.status = verified.failure.body.status;
+        continue;
+      }
+      otpChallengeIds[cardId] = verified.challengeId;
+    }
+
+    const outcome = await queueOrRequestApproval({
+      action: 'freeze_card',
+      requestedBy: req.analyst!.id,
+      targets,
+      options: { reason: data.reason, customerIds, otpChallengeIds }
+    });
+
+    res.status(outcome.httpStatus).json(outcome.body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof BulkLimitError) {
+      return res.status(422).json({ error: error.message, status: 'TOO_MANY_ITEMS', limit: BULK_MAX_ITEMS });
+    }
+    logger.error({ err: error }, 'Bulk freeze card error');
+    res.status(500).json({ error: 'Failed to queue bulk freeze' });
+  }
+});
+
+// GET /api/action/bulk/:jobId
+router.get('/:jobId', requirePermission('cases:read'), async (req, res) => {
+  try {
+    const bulkJob = await prisma.bulkJob.findUnique({
+      where: { id: req.params.jobId },
+      include: {
+        items: {
+          orderBy: { seq: 'asc' }
+        }
+      }
+    });
+
+    if (!bulkJob) {
+      return res.status(404).json({ error: 'Bulk job not found' });
+    }
+
+    const { params_json, items, ...job } = bulkJob;
+
+    res.json({
+      ...job,
+      processed: items.filter(i => i.status !== 'pending').length,
+      items: items.map(i => ({
+        seq: i.seq,
+        targetType: i.target_type,
+        targetId: i.target_id,
+        status: i.status,
+        ok: i.ok,
+        caseId: i.case_id,
+        result: i.result_json,
+        processedAt: i.processed_at
+      }))
+    });
+  } catch (error) {
+    logger.error({ err: error }, 'Bulk job error');
+    res.status(500).json({ error: 'Failed to load bulk job' });
+  }
+});
+
+export default router;
@@ -0,0 +1,401 @@
+import express, { Router, type Request } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { requirePermission } from '../middleware/security.js';
+import { isSupervisor, type Principal } from '../lib/auth.js';
+import {
+  CASE_STATUSES,
+  CASE_ROLES,
+  type CaseRole,
+  LIFECYCLE_CASE_TYPES,
+  OPEN_CASE_STATUSES,
+  InvalidTransitionError,
+  allowedTransitions,
+  assertTransition
+} from '../lib/caseLifecycle.js';
+import { loadCaseTimeline, KeysetCursorSchema } from '../lib/caseTimeline.js';
+import { saveAttachment, readAttachment, ATTACHMENT_MAX_BYTES } from '../lib/attachments.js';
+import { appendCaseEvent, verifyCaseChain } from '../lib/auditLog.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const ListCasesSchema = z.object({
+  status: z.enum(CASE_STATUSES).optional(),
+  type: z.string().optional(),
+  customerId: z.string().uuid().optional(),
+  overdue: z.enum(['true', 'false']).optional(),
+  cursor: KeysetCursorSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const TransitionSchema = z.object({
+  to: z.enum(CASE_STATUSES),
+  note: z.string().optional()
+});
+
+const TimelineSchema = z.object({
+  cursor: KeysetCursorSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+const NoteSchema = z.object({
+  text: z.string().min(1).max(5000)
+});
+
+const AttachmentSchema = z.object({
+  filename: z.string().min(1),
+  note: z.string().max(1000).optional()
+});
+
+const ATTACHMENT_UPLOAD_PATH = /^\/api\/cases\/[^/]+\/attachments\/?$/;
+
+// Requests the global JSON parser must leave alone
+export function isAttachmentUpload(req: Request): boolean {
+  return req.method === 'POST' && ATTACHMENT_UPLOAD_PATH.test(req.path);
+}
+
+// Supervisors and admins act on cases with supervisor rights
+const caseRole = (analyst: Principal): CaseRole => isSupervisor(analyst) ? 'supervisor' : 'analyst';
+
+function withSla<T extends { status: string; sla_due_at: Date | null }>(record: T, now = new Date()) {
+  return {
+    ...record,
+    slaBreached: record.sla_due_at !== null &&
+      OPEN_CASE_STATUSES.includes(record.status as any) &&
+      record.sla_due_at < now
+  };
+}
+
+// GET /api/cases
+router.get('/', requirePermission('cases:read'), async (req, res) => {
+  try {
+    const query = ListCasesSchema.parse(req.query);
+
+    const where: any = {};
+    if (query.status) where.status = query.status;
+    if (query.type) where.type = query.type;
+    if (query.customerId) where.customer_id = query.customerId;
+    if (query.overdue === 'true') {
+      where.status = { in: OPEN_CASE_STATUSES };
+      where.sla_due_at = { lt: new Date() };
+    }
+
+    // Keyset cursor
+    if (query.cursor) {
+      const { ts, id } = query.cursor;
+      where.OR = [
+        { created_at: { lt: ts } },
+        { created_at: ts, id: { lt: id } }
+      ];
+    }
+
+    const cases = await prisma.case.findMany({
+      where,
+      orderBy: [
+        { created_at: 'desc' },
+        { id: 'desc' }
+      ],
+      take: query.limit + 1,
+      include: {
+        customer: {
+          select: { name: true, email: true }
+        }
+      }
+    });
+
+    const hasMore = cases.length > query.limit;
+    const items = hasMore ? cases.slice(0, query.limit) : cases;
+
+    let nextCursor = null;
+    if (hasMore) {
+      const last = items[items.length - 1];
+      nextCursor = `${last.created_at.toISOString()}_${last.id}`;
+    }
+
+    res.json({
+      items: items.map(c => withSla(c)),
+      nextCursor,
+      hasMore
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Cases error');
+    res.status(500).json({ error: 'Failed to load cases' });
+  }
+});
+
+// GET /api/cases/:id
+router.get('/:id', requirePermission('cases:read'), async (req, res) => {
+  try {
+    const caseRecord = await prisma.case.findUnique({
+      where: { id: req.params.id },
+      include: {
+        customer: {
+          select: { name: true, email: true }
+        },
+        transaction: {
+          select: { id: true, merchant: true, amount_cents: true, currency: true, ts: true }
+        },
+        events: {
+          orderBy: { ts: 'asc' }
+        },
+        child_cases: {
+          select: { id: true, type: true, status: true, customer_id: true, created_at: true },
+          orderBy: { created_at: 'asc' }
+        }
+      }
+    });
+
+    if (!caseRecord) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    const lifecycle = LIFECYCLE_CASE_TYPES.includes(caseRecord.type);
+
+    res.json({
+      ...withSla(caseRecord),
+      allowedTransitions: Object.fromEntries(
+        CASE_ROLES.map(role => [role, lifecycle ? allowedTransitions(caseRecord.status, role) : []])
+      )
+    });
+  } catch (error) {
+    logger.error({ err: error }, 'Case error');
+    res.status(500).json({ error: 'Failed to load case' });
+  }
+});
+
+// GET /api/cases/:id/verify - walk the case's event hash chain
+router.get('/:id/verify', requirePermission('cases:read'), async (req, res) => {
+  try {
+    const report = await verifyCaseChain(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    res.json({
+      status: report.valid ? 'VALID' : 'BROKEN',
+      ...report,
+      verifiedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ err: error }, 'Case verify error');
+    res.status(500).json({ error: 'Failed to verify case events' });
+  }
+});
+
+// POST /api/cases/:id/transition
+router.post('/:id/transition', requirePermission('cases:write'), async (req, res) => {
+  try {
+    const data = TransitionSchema.parse(req.body);
+    const role = caseRole(req.analyst!);
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!caseRecord) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    if (!LIFECYCLE_CASE_TYPES.includes(caseRecord.type)) {
+      return res.status(409).json({
+        error: `Cases of type ${caseRecord.type} have no lifecycle`,
+        status: 'NOT_TRANSITIONABLE'
+      });
+    }
+
+    assertTransition(caseRecord.status, data.to, role);
+
+    const closing = !OPEN_CASE_STATUSES.includes(data.to);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only move the case if nobody else moved it since we read it
+      const { count } = await tx.case.updateMany({
+        where: { id: caseRecord.id, status: caseRecord.status },
+        data: {
+          status: data.to,
+          closed_at: closing ? new Date() : null
+        }
+      });
+
+      if (count === 0) return null;
+
+      await appendCaseEvent({
+        case_id: caseRecord.id,
+        actor: req.analyst!.id,
+        action: 'status_changed',
+        payload_json: {
+          from: caseRecord.status,
+          to: data.to,
+          role,
+          note: data.note
+        }
+      }, tx);
+
+      return tx.case.findUniqueOrThrow({ where: { id: caseRecord.id } });
+    });
+
+    if (!updated) {
+      return res.status(409).json({
+        error: 'Case status changed concurrently, reload and retry',
+        status: 'CONFLICT'
+      });
+    }
+
+    res.json({
+      status: 'TRANSITIONED',
+      caseId: updated.id,
+      from: caseRecord.status,
+      to: updated.status,
+      case: withSla(updated),
+      message: `Case moved to ${updated.status}`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (error instanceof InvalidTransitionError) {
+      return res.status(error.allowed ? 403 : 409).json({
+        error: error.message,
+        status: error.allowed ? 'ROLE_NOT_ALLOWED' : 'INVALID_TRANSITION',
+        allowed: allowedTransitions(error.from, caseRole(req.analyst!))
+      });
+    }
+    logger.error({ err: error }, 'Case transition error');
+    res.status(500).json({ error: 'Failed to transition case' });
+  }
+});
+
+// GET /api/cases/:id/timeline
+router.get('/:id/timeline', requirePermission('cases:read'), async (req, res) => {
+  try {
+    const query = TimelineSchema.parse(req.query);
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, customer_id: true, txn_id: true }
+    });
+
+    if (!caseRecord) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    const timeline = await loadCaseTimeline(caseRecord, query.cursor ?? null, query.limit);
+
+    res.json({ caseId: caseRecord.id, ...timeline });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Case timeline error');
+    res.status(500).json({ error: 'Failed to load case timeline' });
+  }
+});
+
+// POST /api/cases/:id/notes
+router.post('/:id/notes', requirePermission('cases:write'), async (req, res) => {
+  try {
+    const data = NoteSchema.parse(req.body);
+
+    const caseRecord = await prisma.case.findUnique({ where: { id: req.params.id } });
+    if (!caseRecord) {
+      return res.status(404).json({ error: 'Case not found' });
+    }
+
+    const event = await appendCaseEvent({
+      case_id: caseRecord.id,
+      actor: req.analyst!.id,
+      action: 'note_added',
+      payload_json: { text: data.text }
+    });
+
+    res.status(201).json({ status: 'NOTE_ADDED', caseId: caseRecord.id, event });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Case note error');
+    res.status(500).json({ error: 'Failed to add note' });
+  }
+});
+
+// POST /api/cases/:id/attachments?filename=..&note=..
+// The request body is the raw file; Content-Type is stored as its type. The
+// global JSON parser skips this route (see index.ts), so JSON files arrive
+// intact too.
+router.post(
+  '/:id/attachments',
+  requirePermission('cases:write'),
+  express.raw({ type: () => true, limit: ATTACHMENT_MAX_BYTES }),
+  async (req, res) => {
+    try {
+      const data = AttachmentSchema.parse(req.query);
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Attachment body is empty' });
+      }
+
+      const caseRecord = await prisma.case.findUnique({ where: { id: req.params.id } });
+      if (!caseRecord) {
+        return res.status(404).json({ error: 'Case not found' });
+      }
+
+      const attachment = await saveAttachment(
+        caseRecord.id,
+        data.filename,
+        req.headers['content-type'] || 'application/octet-stream',
+        req.body
+      );
+
+      const event = await appendCaseEvent({
+        case_id: caseRecord.id,
+        actor: req.analyst!.id,
+        action: 'attachment_added',
+        payload_json: { ...attachment, note: data.note }
+      });
+
+      res.status(201).json({ status: 'ATTACHMENT_ADDED', caseId: caseRecord.id, attachment, event });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation failed', details: error.errors });
+      }
+      logger.error({ err: error }, 'Case attachment error');
+      res.status(500).json({ error: 'Failed to add attachment' });
+    }
+  }
+);
+
+// GET /api/cases/:id/attachments/:attachmentId
+router.get('/:id/attachments/:attachmentId', requirePermission('cases:read'), async (req, res) => {
+  try {
+    const event = await prisma.caseEvent.findFirst({
+      where: {
+        case_id: req.params.id,
+        action: 'attachment_added',
+        payload_json: { path: ['attachmentId'], equals: req.params.attachmentId }
+      }
+    });
+
+    const content = event && await readAttachment(req.params.id, req.params.attachmentId);
+    if (!event || !content) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const meta = event.payload_json as { filename: string; contentType: string };
+    res.setHeader('Content-Type', meta.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${meta.filename}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(content);
+  } catch (error) {
+    logger.error({ err: error }, 'Case attachment error');
+    res.status(500).json({ error: 'Failed to load attachment' });
+  }
+});
+
+export default router;
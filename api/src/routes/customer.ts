@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { logger } from '../lib/logger.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -62,7 +63,7 @@ router.get('/:id/transactions', async (req, res) => {
     });
     
   } catch (error) {
-    console.error('Query error:', error);
+    logger.error({ err: error }, 'Query error');
     res.status(500).json({ error: 'Failed to fetch transactions' });
   }
 });
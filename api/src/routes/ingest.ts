@@ -1,6 +1,11 @@
 import { Router } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Transaction } from '@prisma/client';
 import { z } from 'zod';
+import { recordDeviceSightings } from '../lib/devices.js';
+import { scoreTransactions, ALERT_THRESHOLD } from '../lib/txnScoring.js';
+import { ingestAlertsTotal } from '../lib/metrics.js';
+import { createAlert } from '../agents/autoTriage.js';
+import { logger } from '../lib/logger.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -27,10 +32,20 @@ router.post('/transactions', async (req, res) => {
     return res.status(400).json({ error: 'Expected array of transactions' });
   }
   
+  let validated: z.infer<typeof TransactionSchema>[];
+  try {
+    validated = transactions.map(t => TransactionSchema.parse(t));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Ingest error');
+    return res.status(500).json({ error: 'Failed to ingest transactions' });
+  }
+
+  let created: Transaction[];
+  let failed: number;
   try {
-    // Validate all transactions
-    const validated = transactions.map(t => TransactionSchema.parse(t));
-    
     // Batch insert with upsert (dedupe)
     const results = await Promise.allSettled(
       validated.map(data =>
@@ -43,6 +58,105 @@ router.post('/transactions', async (req, res) => {
       )
     );
     
+    created = results
+      .filter((r): r is PromiseFulfilledResult<Transaction> => r.status === 'fulfilled')
+      .map(r => r.value);
+    failed = results.filter(r => r.status === 'rejected').length;
+  } catch (error) {
+    logger.error({ err: error }, 'Ingest error');
+    return res.status(500).json({ error: 'Failed to ingest transactions' });
+  }
+
+  // The transactions are stored from here on: a failure below must not tell
+  // the client to resend them, so it is logged and reported, not a 4xx/5xx
+  const incomplete: string[] = [];
+
+  // Score against history before this batch's devices are recorded as seen
+  let scores: Awaited<ReturnType<typeof scoreTransactions>> = [];
+  try {
+    scores = await scoreTransactions(created);
+  } catch (error) {
+    logger.error({ err: error }, 'Ingest scoring failed');
+    incomplete.push('scoring');
+  }
+
+  // Track device fingerprints seen on the new transactions
+  let devices = 0;
+  try {
+    devices = await recordDeviceSightings(created);
+  } catch (error) {
+    logger.error({ err: error }, 'Ingest device sightings failed');
+    incomplete.push('devices');
+  }
+
+  const alerts = [];
+  for (const score of scores) {
+    if (score.score < ALERT_THRESHOLD) continue;
+
+    try {
+      const { alert, runId } = await createAlert({
+        customer_id: score.customerId,
+        suspect_txn_id: score.txnId,
+        risk: score.risk,
+        reason: score.signals.join(',')
+      });
+
+      ingestAlertsTotal.labels(score.risk).inc();
+      alerts.push({ alertId: alert.id, txnId: score.txnId, risk: score.risk, reason: alert.reason, runId });
+    } catch (error) {
+      logger.error({ err: error }, `Ingest alert for transaction ${score.txnId} failed`);
+      if (!incomplete.includes('alerts')) incomplete.push('alerts');
+    }
+  }
+
+  res.json({
+    accepted: true,
+    count: created.length,
+    failed,
+    devices,
+    alerts,
+    // Post-processing steps that failed for this batch (see the logs)
+    ...(incomplete.length > 0 && { incomplete }),
+    requestId: `ingest_${Date.now()}`
+  });
+});
+
+// Chargeback schema (shape of docs/fixtures/chargebacks.json)
+const ChargebackSchema = z.object({
+  customer_id: z.string().uuid(),
+  transaction_id: z.string().uuid().optional(),
+  amount_cents: z.number().int().positive(),
+  reason: z.string(),
+  status: z.enum(['pending', 'resolved', 'rejected']).default('pending'),
+  created_at: z.string().datetime().optional()
+});
+
+// POST /api/ingest/chargebacks
+router.post('/chargebacks', async (req, res) => {
+  const { chargebacks } = req.body;
+  
+  if (!Array.isArray(chargebacks)) {
+    return res.status(400).json({ error: 'Expected array of chargebacks' });
+  }
+  
+  try {
+    const validated = chargebacks.map(c => ChargebackSchema.parse(c));
+    
+    const results = await Promise.allSettled(
+      validated.map(data =>
+        prisma.chargeback.create({
+          data: {
+            customer_id: data.customer_id,
+            txn_id: data.transaction_id,
+            amount_cents: data.amount_cents,
+            reason: data.reason,
+            status: data.status,
+            created_at: data.created_at ? new Date(data.created_at) : new Date()
+          }
+        })
+      )
+    );
+    
     const succeeded = results.filter(r => r.status === 'fulfilled').length;
     const failed = results.filter(r => r.status === 'rejected').length;
     
@@ -54,8 +168,11 @@ router.post('/transactions', async (req, res) => {
     });
     
   } catch (error) {
-    console.error('Ingest error:', error);
-    res.status(400).json({ error: 'Validation failed', details: error });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Chargeback ingest error');
+    res.status(500).json({ error: 'Failed to ingest chargebacks' });
   }
 });
 
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { logger } from '../lib/logger.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -101,7 +102,7 @@ router.get('/:customerId/summary', async (req, res) => {
     });
     
   } catch (error) {
-    console.error('Insights error:', error);
+    logger.error({ err: error }, 'Insights error');
     res.status(500).json({ error: 'Failed to generate insights' });
   }
 });
@@ -0,0 +1,176 @@
+import { Router } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { RiskRuleSchema, loadActiveRuleset } from '../lib/riskRules.js';
+import { requirePermission } from '../middleware/security.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Validation schemas
+const CreateRulesetSchema = z.object({
+  description: z.string().optional(),
+  rules: z.array(RiskRuleSchema).min(1)
+}).refine(
+  data => new Set(data.rules.map(r => r.code)).size === data.rules.length,
+  { message: 'Rule codes must be unique within a ruleset' }
+);
+
+// GET /api/rules - List ruleset versions
+router.get('/', requirePermission('rules:read'), async (req, res) => {
+  try {
+    const rulesets = await prisma.riskRuleset.findMany({
+      orderBy: { version: 'desc' },
+      include: { _count: { select: { rules: true } } }
+    });
+
+    res.json({ rulesets });
+  } catch (error) {
+    logger.error({ err: error }, 'Rules list error');
+    res.status(500).json({ error: 'Failed to load rulesets' });
+  }
+});
+
+// GET /api/rules/active - Ruleset currently used by triage
+router.get('/active', requirePermission('rules:read'), async (req, res) => {
+  try {
+    const ruleset = await loadActiveRuleset();
+    res.json(ruleset);
+  } catch (error) {
+    logger.error({ err: error }, 'Active ruleset error');
+    res.status(500).json({ error: 'Failed to load active ruleset' });
+  }
+});
+
+// GET /api/rules/:version
+router.get('/:version', requirePermission('rules:read'), async (req, res) => {
+  const version = parseInt(req.params.version);
+
+  if (isNaN(version)) {
+    return res.status(400).json({ error: 'version must be a number' });
+  }
+
+  try {
+    const ruleset = await prisma.riskRuleset.findUnique({
+      where: { version },
+      include: { rules: { orderBy: { code: 'asc' } } }
+    });
+
+    if (!ruleset) {
+      return res.status(404).json({ error: 'Ruleset not found' });
+    }
+
+    res.json(ruleset);
+  } catch (error) {
+    logger.error({ err: error }, 'Ruleset error');
+    res.status(500).json({ error: 'Failed to load ruleset' });
+  }
+});
+
+// Concurrent drafts can pick the same next version; the loser retries
+const CREATE_VERSION_ATTEMPTS = 3;
+
+const isVersionTaken = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// POST /api/rules - Create a new draft version
+router.post('/', requirePermission('rules:write'), async (req, res) => {
+  try {
+    const data = CreateRulesetSchema.parse(req.body);
+
+    const createDraft = () => prisma.$transaction(async (tx) => {
+      const latest = await tx.riskRuleset.findFirst({
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      return tx.riskRuleset.create({
+        data: {
+          version: (latest?.version ?? 0) + 1,
+          status: 'draft',
+          description: data.description,
+          created_by: req.analyst!.id,
+          rules: {
+            create: data.rules.map(rule => ({
+              code: rule.code,
+              description: rule.description,
+              condition: rule.condition,
+              weight: rule.weight,
+              enabled: rule.enabled
+            }))
+          }
+        },
+        include: { rules: true }
+      });
+    });
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return res.status(201).json(await createDraft());
+      } catch (error) {
+        if (!isVersionTaken(error) || attempt >= CREATE_VERSION_ATTEMPTS) throw error;
+      }
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    if (isVersionTaken(error)) {
+      return res.status(409).json({
+        error: 'Another ruleset version was created at the same time, retry',
+        status: 'VERSION_CONFLICT'
+      });
+    }
+    logger.error({ err: error }, 'Create ruleset error');
+    res.status(500).json({ error: 'Failed to create ruleset' });
+  }
+});
+
+// POST /api/rules/:version/activate - Make a version live, retiring the current one
+router.post('/:version/activate', requirePermission('rules:write'), async (req, res) => {
+  const version = parseInt(req.params.version);
+
+  if (isNaN(version)) {
+    return res.status(400).json({ error: 'version must be a number' });
+  }
+
+  try {
+    const ruleset = await prisma.riskRuleset.findUnique({ where: { version } });
+
+    if (!ruleset) {
+      return res.status(404).json({ error: 'Ruleset not found' });
+    }
+
+    if (ruleset.status === 'active') {
+      return res.json({
+        status: 'ALREADY_ACTIVE',
+        version,
+        message: 'Ruleset is already active'
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.riskRuleset.updateMany({
+        where: { status: 'active' },
+        data: { status: 'retired' }
+      }),
+      prisma.riskRuleset.update({
+        where: { version },
+        data: { status: 'active', activated_at: new Date() }
+      })
+    ]);
+
+    res.json({
+      status: 'ACTIVE',
+      version,
+      message: `Ruleset v${version} is now active`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ err: error }, 'Activate ruleset error');
+    res.status(500).json({ error: 'Failed to activate ruleset' });
+  }
+});
+
+export default router;
@@ -1,13 +1,18 @@
 import { Router } from 'express';
-import { TriageOrchestrator } from '../agents/orchestrator.js';
+import { requirePermission } from '../middleware/security.js';
+import { redis } from '../lib/redis.js';
+import { getRun, readEvents, formatStreamEvent } from '../lib/runStore.js';
+import { enqueueRun, AlertNotFoundError } from '../agents/runManager.js';
+import { getQueueDepth } from '../lib/queue.js';
+import { logger } from '../lib/logger.js';
 
 const router = Router();
 
-// Store active runs (in production, use Redis)
-const activeRuns = new Map<string, TriageOrchestrator>();
+// How long one blocking read waits before sending a keep-alive
+const STREAM_BLOCK_MS = 5000;
 
 // POST /api/triage - Start a new triage run
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('triage:run'), async (req, res) => {
   const { alertId } = req.body;
 
   if (!alertId) {
@@ -15,28 +20,40 @@ router.post('/', async (req, res) => {
   }
 
   try {
-    const orchestrator = new TriageOrchestrator(alertId);
-    activeRuns.set(orchestrator['runId'], orchestrator);
-
-    // Start execution in background
-    orchestrator.execute().finally(() => {
-      // Clean up after 5 minutes
-      setTimeout(() => activeRuns.delete(orchestrator['runId']), 5 * 60 * 1000);
-    });
+    // Executed by a triage worker; run state is persisted before responding,
+    // so any instance can stream it
+    const runId = await enqueueRun(alertId, 'manual', req.analyst!.id);
 
     res.json({
-      runId: orchestrator['runId'],
+      runId,
       alertId,
-      status: 'started'
+      status: 'queued'
     });
   } catch (error) {
-    console.error('Triage error:', error);
+    if (error instanceof AlertNotFoundError) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+    logger.error({ err: error }, 'Triage error');
     res.status(500).json({ error: 'Failed to start triage' });
   }
 });
 
+// GET /api/triage/queue - Queue depth for the triage workers
+router.get('/queue', requirePermission('cases:read'), async (req, res) => {
+  try {
+    res.json(await getQueueDepth());
+  } catch (error) {
+    logger.error({ err: error }, 'Queue depth error');
+    res.status(500).json({ error: 'Failed to read queue depth' });
+  }
+});
+
 // GET /api/triage/:runId/stream - SSE endpoint
-router.get('/:runId/stream', (req, res) => {
+// Replays stored events, then tails new ones until the run completes or errors.
+// Honors Last-Event-ID so reconnecting clients resume where they left off.
+// EventSource cannot set headers, so browsers pass a session token as
+// ?access_token= instead.
+router.get('/:runId/stream', requirePermission('cases:read'), async (req, res) => {
   const { runId } = req.params;
 
   // Set SSE headers
@@ -46,59 +63,67 @@ router.get('/:runId/stream', (req, res) => {
   res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
 
   // Send initial connected event
-  res.write(`data: ${JSON.stringify({ type: 'connected', runId })}\n\n`);
-
-  // Find orchestrator or wait for it
-  const checkOrchestrator = () => {
-    const orchestrator = activeRuns.get(runId);
-    
-    if (!orchestrator) {
-      res.write(`data: ${JSON.stringify({ type: 'error', message: 'Run not found' })}\n\n`);
-      res.end();
-      return;
-    }
+  res.write(formatStreamEvent({ type: 'connected', runId }));
 
-    // Listen to orchestrator events
-    const onStart = (data: any) => {
-      res.write(`data: ${JSON.stringify({ type: 'start', data, timestamp: new Date().toISOString() })}\n\n`);
-    };
+  let run;
+  try {
+    run = await getRun(runId);
+  } catch (error) {
+    logger.error({ err: error }, 'Triage stream error');
+  }
 
-    const onStep = (step: any) => {
-      res.write(`data: ${JSON.stringify({ type: 'step', data: step, timestamp: new Date().toISOString() })}\n\n`);
-    };
+  if (!run) {
+    res.write(formatStreamEvent({ type: 'error', message: 'Run not found' }));
+    res.end();
+    return;
+  }
 
-    const onFallback = (data: any) => {
-      res.write(`data: ${JSON.stringify({ type: 'fallback', data, timestamp: new Date().toISOString() })}\n\n`);
-    };
+  // Blocking reads need their own connection
+  const reader = redis.duplicate();
+  let closed = false;
 
-    const onComplete = (result: any) => {
-      res.write(`data: ${JSON.stringify({ type: 'complete', data: result, timestamp: new Date().toISOString() })}\n\n`);
-      res.end();
-    };
+  req.on('close', () => {
+    closed = true;
+    reader.disconnect();
+  });
 
-    const onError = (error: any) => {
-      res.write(`data: ${JSON.stringify({ type: 'error', data: error, timestamp: new Date().toISOString() })}\n\n`);
-      res.end();
-    };
-
-    orchestrator.on('start', onStart);
-    orchestrator.on('step', onStep);
-    orchestrator.on('fallback', onFallback);
-    orchestrator.on('complete', onComplete);
-    orchestrator.on('error', onError);
-
-    // Cleanup on client disconnect
-    req.on('close', () => {
-      orchestrator.off('start', onStart);
-      orchestrator.off('step', onStep);
-      orchestrator.off('fallback', onFallback);
-      orchestrator.off('complete', onComplete);
-      orchestrator.off('error', onError);
-    });
-  };
+  let cursor = (req.headers['last-event-id'] as string) || '0';
 
-  // Check immediately or wait a bit
-  setTimeout(checkOrchestrator, 100);
+  try {
+    while (!closed) {
+      const events = await readEvents(reader, runId, cursor, STREAM_BLOCK_MS);
+
+      for (const { id, event } of events) {
+        res.write(formatStreamEvent(event, id));
+        cursor = id;
+
+        if (event.type === 'complete' || event.type === 'error') {
+          res.end();
+          return;
+        }
+      }
+
+      if (events.length === 0) {
+        // A finished run with no terminal event left nothing more to tail
+        const current = await getRun(runId);
+        if (!current || current.status === 'complete' || current.status === 'error') {
+          res.write(formatStreamEvent({ type: 'error', message: 'Run ended without a result' }));
+          res.end();
+          return;
+        }
+
+        res.write(': keep-alive\n\n');
+      }
+    }
+  } catch (error) {
+    if (!closed) {
+      logger.error({ err: error }, 'Triage stream error');
+      res.write(formatStreamEvent({ type: 'error', message: 'Stream interrupted' }));
+      res.end();
+    }
+  } finally {
+    reader.disconnect();
+  }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { detokenize, isToken } from '../lib/tokenVault.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+
+const DetokenizeSchema = z.object({
+  tokens: z.array(z.string().refine(isToken, 'Not a vault token')).min(1).max(50),
+  // Recorded with every lookup in token_access_log
+  reason: z.string().min(5).max(500)
+});
+
+// POST /api/vault/detokenize - originals behind tokens, for supervisors
+router.post('/detokenize', async (req, res) => {
+  try {
+    const data = DetokenizeSchema.parse(req.body);
+
+    const values = await detokenize(data.tokens, req.analyst!.id, data.reason);
+
+    // Cleartext is the point of this response
+    res.locals.skipRedaction = true;
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      status: 'DETOKENIZED',
+      values,
+      notFound: Object.keys(values).filter(token => values[token] === null),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation failed', details: error.errors });
+    }
+    logger.error({ err: error }, 'Detokenize error');
+    res.status(500).json({ error: 'Failed to detokenize' });
+  }
+});
+
+export default router;
@@ -1,3 +1,6 @@
+import type { KbCitation } from '../lib/kbSearch.js';
+import type { PolicyCitation } from '../lib/policies.js';
+
 export interface AgentStep {
   name: string;
   duration_ms: number;
@@ -10,16 +13,47 @@ export interface TriageResult {
   runId: string;
   alertId: string;
   risk: 'low' | 'medium' | 'high';
+  score: number | null;
   reasons: string[];
   recommendation: string;
   confidence: number;
+  requiresOtp: boolean;
+  requiredApprovals: number;
+  policyCode: string;
+  policies: PolicyCitation[];
+  citations: KbCitation[];
   steps: AgentStep[];
   fallbackUsed: boolean;
   totalDuration: number;
+  rulesetVersion: number | null;
 }
 
 export interface StreamEvent {
-  type: 'start' | 'step' | 'fallback' | 'complete' | 'error';
+  type: 'start' | 'step' | 'retry' | 'fallback' | 'resumed' | 'complete' | 'error';
   data: any;
   timestamp: string;
-}
\ No newline at end of file
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  backoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface StepContext {
+  runId: string;
+  alertId: string;
+}
+
+// A pluggable orchestrator step. `inputs` name the outputs of other steps
+// this one reads; the orchestrator runs a step once all of them resolve.
+export interface StepPlugin<TResult = any> {
+  name: string;
+  inputs: string[];
+  output: string;
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+  // Result used when every attempt fails; without one the run fails
+  fallback?: (error: Error) => TResult;
+  run: (inputs: Record<string, any>, ctx: StepContext) => Promise<TResult>;
+}
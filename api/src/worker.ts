@@ -0,0 +1,105 @@
+import { Worker } from 'bullmq';
+import { redisConnection } from './lib/redis.js';
+import {
+  TRIAGE_QUEUE,
+  BULK_ACTIONS_QUEUE,
+  deadLetterQueue,
+  type TriageJobData,
+  type BulkActionJobData
+} from './lib/queue.js';
+import { processRun, INSTANCE_ID } from './agents/runManager.js';
+import { applyAutoClose } from './agents/autoTriage.js';
+import { processBulkJob, failBulkJob } from './lib/bulkActions.js';
+import { expireApprovals } from './lib/approvals.js';
+import { logger } from './lib/logger.js';
+
+const CONCURRENCY = parseInt(process.env.TRIAGE_WORKER_CONCURRENCY || '4');
+const APPROVAL_SWEEP_MS = 60 * 1000;
+
+const worker = new Worker<TriageJobData>(TRIAGE_QUEUE, async (job) => {
+  const result = await processRun(job);
+
+  if (job.data.trigger === 'auto') {
+    try {
+      await applyAutoClose(job.data.alertId, result);
+    } catch (error) {
+      // Leave the alert open for an analyst rather than retrying the triage
+      logger.error({ err: error }, `Auto-close failed for alert ${job.data.alertId}`);
+    }
+  }
+}, {
+  connection: { ...redisConnection, maxRetriesPerRequest: null },
+  concurrency: CONCURRENCY
+});
+
+worker.on('ready', () => {
+  logger.info(`🛠️  Triage worker ${INSTANCE_ID} ready (concurrency ${CONCURRENCY})`);
+});
+
+// Move jobs that exhausted their attempts to the dead-letter queue
+worker.on('failed', async (job, error) => {
+  if (!job) return;
+
+  const attempts = job.opts.attempts ?? 1;
+  logger.error({ reason: error.message }, `Triage job ${job.id} failed (attempt ${job.attemptsMade}/${attempts})`);
+
+  if (job.attemptsMade < attempts) return;
+
+  try {
+    await deadLetterQueue.add('dead', {
+      ...job.data,
+      failedReason: error.message,
+      attemptsMade: job.attemptsMade,
+      failedAt: new Date().toISOString()
+    }, { jobId: job.data.runId });
+  } catch (err) {
+    logger.error({ err }, `Failed to dead-letter job ${job.id}`);
+  }
+});
+
+worker.on('error', (err) => {
+  logger.error({ err }, '❌ Worker error');
+});
+
+// Bulk actions run one job at a time so they don't starve triage
+const bulkWorker = new Worker<BulkActionJobData>(BULK_ACTIONS_QUEUE, processBulkJob, {
+  connection: { ...redisConnection, maxRetriesPerRequest: null },
+  concurrency: 1
+});
+
+bulkWorker.on('failed', async (job, error) => {
+  if (!job) return;
+
+  logger.error({ reason: error.message }, `Bulk job ${job.id} failed (attempt ${job.attemptsMade}/${job.opts.attempts ?? 1})`);
+  if (job.attemptsMade < (job.opts.attempts ?? 1)) return;
+
+  try {
+    await failBulkJob(job.data.bulkJobId, error.message);
+  } catch (err) {
+    logger.error({ err }, `Failed to mark bulk job ${job.id} as failed`);
+  }
+});
+
+bulkWorker.on('error', (err) => {
+  logger.error({ err }, '❌ Bulk worker error');
+});
+
+// Expire four-eyes requests nobody decided in time, so their cases record it
+const approvalSweep = setInterval(async () => {
+  try {
+    const expired = await expireApprovals();
+    if (expired > 0) logger.info(`⏰ Expired ${expired} approval request(s)`);
+  } catch (err) {
+    logger.error({ err }, 'Approval expiry sweep failed');
+  }
+}, APPROVAL_SWEEP_MS);
+
+const shutdown = async () => {
+  logger.info('Shutting down triage worker...');
+  clearInterval(approvalSweep);
+  await Promise.all([worker.close(), bulkWorker.close()]);
+  process.exit(0);
+};
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
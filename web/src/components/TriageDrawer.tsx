@@ -92,7 +92,12 @@ export default function TriageDrawer({ runId, alert: alertData, onClose }: Triag
         });
 
         if (response.data.status === 'PENDING_OTP') {
-          const otp = window.prompt('⚠️ OTP Required\n\nThis is a high-value account.\nEnter OTP (demo: 123456)');
+          const challenge = await api.post('http://localhost:3000/api/action/issue-otp', {
+            cardId,
+            action: 'freeze_card',
+          });
+
+          const otp = window.prompt(`⚠️ OTP Required\n\nThis is a high-value account.\nA code was sent to the customer (${challenge.data.channel}).\nEnter OTP`);
           if (!otp) {
             setAnnouncement('OTP verification cancelled');
             return;
@@ -118,6 +123,13 @@ export default function TriageDrawer({ runId, alert: alertData, onClose }: Triag
           confirm: true,
         });
       } 
+      else if (action === 'contact_customer') {
+        response = await api.post('http://localhost:3000/api/action/contact-customer', {
+          alertId: alertData.id,
+          channel: 'sms',
+          template: 'suspicious_transaction',
+        });
+      }
       else if (action === 'mark_false_positive') {
         response = await api.post('http://localhost:3000/api/action/mark-false-positive', {
           alertId: alertData.id,
@@ -236,6 +248,11 @@ export default function TriageDrawer({ runId, alert: alertData, onClose }: Triag
                 <div className="recommendation-confidence">
                   Confidence: {(result.confidence * 100).toFixed(0)}%
                 </div>
+                {result.policies?.length > 0 && (
+                  <div className="recommendation-confidence">
+                    Policy: {result.policies.map((p: any) => `${p.code} (${p.effect})`).join(', ')}
+                  </div>
+                )}
               </div>
 
               <div className="reasons-card">
@@ -247,6 +264,23 @@ export default function TriageDrawer({ runId, alert: alertData, onClose }: Triag
                 </ul>
               </div>
 
+              {result.citations?.length > 0 && (
+                <div className="reasons-card">
+                  <div className="reasons-label">Knowledge Base</div>
+                  <ul className="citations-list">
+                    {result.citations.map((citation: any) => (
+                      <li key={citation.id} className="citation-item">
+                        <div className="citation-title">{citation.title} <span className="citation-anchor">#{citation.anchor}</span></div>
+                        <p className="citation-snippet">{citation.snippet}</p>
+                        <div className="citation-reasons">
+                          Supports: {citation.reasons.map((r: string) => r.replace(/_/g, ' ')).join(', ')}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="performance-card">
                 <div className="performance-label"><span>Total Duration</span></div>
                 <span className="performance-value">{result.totalDuration}ms</span>
@@ -265,6 +299,9 @@ export default function TriageDrawer({ runId, alert: alertData, onClose }: Triag
               <button onClick={() => handleAction('freeze_card')} disabled={actionTaken} className="btn btn-danger action-btn">
                 🧊 Freeze Card
               </button>
+              <button onClick={() => handleAction('contact_customer')} disabled={actionTaken} className="btn btn-secondary action-btn">
+                📞 Contact Customer
+              </button>
               <button onClick={() => handleAction('open_dispute')} disabled={actionTaken} className="btn btn-primary action-btn">
                 📋 Open Dispute
               </button>
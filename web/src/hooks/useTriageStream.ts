@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
+import { getTriageStreamUrl } from '../lib/api';
 
 export interface TriageEvent {
-  type: 'connected' | 'start' | 'step' | 'fallback' | 'complete' | 'error';
+  type: 'connected' | 'start' | 'step' | 'retry' | 'fallback' | 'resumed' | 'complete' | 'error';
   data?: any;
   timestamp?: string;
 }
@@ -14,34 +15,57 @@ export function useTriageStream(runId: string | null) {
   useEffect(() => {
     if (!runId) return;
 
-    const eventSource = new EventSource(
-      `http://localhost:3000/api/triage/${runId}/stream`
-    );
-
-    eventSource.onmessage = (event) => {
-      const data = JSON.parse(event.data) as TriageEvent;
-      
-      setEvents(prev => [...prev, data]);
-
-      if (data.type === 'complete') {
-        setIsComplete(true);
-        eventSource.close();
-      } else if (data.type === 'error') {
-        setError(data.data?.message || 'Unknown error');
-        eventSource.close();
-      }
-    };
+    let eventSource: EventSource | null = null;
+    let cancelled = false;
+
+    const subscribe = (url: string) => {
+      const source = new EventSource(url);
+
+      source.onmessage = (event) => {
+        const data = JSON.parse(event.data) as TriageEvent;
+
+        // Reconnects replay from Last-Event-ID and re-send 'connected'
+        if (data.type === 'connected' && event.lastEventId) return;
+
+        setEvents(prev => [...prev, data]);
 
-    eventSource.onerror = (err) => {
-      console.error('SSE Error:', err);
-      setError('Connection lost');
-      eventSource.close();
+        if (data.type === 'complete') {
+          setIsComplete(true);
+          source.close();
+        } else if (data.type === 'error') {
+          setError(data.data?.message || 'Unknown error');
+          source.close();
+        }
+      };
+
+      source.onerror = (err) => {
+        // The browser reconnects on its own and the server resumes from the
+        // last event id; only give up once it stops retrying
+        if (source.readyState !== EventSource.CLOSED) return;
+
+        console.error('SSE Error:', err);
+        setError('Connection lost');
+        source.close();
+      };
+
+      return source;
     };
 
+    // The stream is authenticated with a session token, fetched first
+    getTriageStreamUrl(runId)
+      .then(url => {
+        if (!cancelled) eventSource = subscribe(url);
+      })
+      .catch(err => {
+        console.error('Failed to authenticate triage stream:', err);
+        if (!cancelled) setError('Could not open the event stream');
+      });
+
     return () => {
-      eventSource.close();
+      cancelled = true;
+      eventSource?.close();
     };
   }, [runId]);
 
   return { events, isComplete, error };
-}
\ No newline at end of file
+}
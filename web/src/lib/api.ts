@@ -1,18 +1,17 @@
 import axios from 'axios';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
-const API_KEY = import.meta.env.VITE_API_KEY || 'zeta_dev_key_12345';
+// An analyst key printed by the seed; there is no built-in default
+const API_KEY = import.meta.env.VITE_API_KEY;
 
 export const api = axios.create({
   baseURL: API_URL,
   timeout: 10000
 });
 
-// Add API key to all action requests
+// Identify the analyst on every request; actions are recorded against them
 api.interceptors.request.use((config) => {
-  if (config.url?.includes('/api/action')) {
-      config.headers['X-API-Key'] = API_KEY;
-  }
+  if (API_KEY) config.headers['X-API-Key'] = API_KEY;
   return config;
 });
 
@@ -54,6 +53,14 @@ export interface Insights {
 }
 
 // API methods
+// URL for a triage run's event stream. EventSource cannot send the API key
+// header, so the key is exchanged for a session token passed in the query.
+export const getTriageStreamUrl = async (runId: string) => {
+  const { data } = await api.post<{ token: string }>('/api/auth/token');
+  const params = new URLSearchParams({ access_token: data.token });
+  return `${API_URL}/api/triage/${runId}/stream?${params}`;
+};
+
 export const getCustomerProfile = (id: string) =>
   api.get<Customer>(`/api/customer/${id}/profile`);
 
@@ -2,7 +2,7 @@
 import { useState, useEffect } from 'react';
 import { AlertCircle, Play } from 'lucide-react';
 import TriageDrawer from '../components/TriageDrawer';
-import axios from 'axios';
+import { api } from '../lib/api.ts';
 import '../styles/Alerts.css';
 
 interface Alert {
@@ -16,6 +16,13 @@ interface Alert {
     name: string;
     email: string;
   };
+  triage_runs: {
+    id: string;
+    risk: string | null;
+    score: number | null;
+    recommendation: string | null;
+    trigger: string;
+  }[];
 }
 
 export default function Alerts() {
@@ -32,7 +39,7 @@ export default function Alerts() {
   const loadAlerts = async () => {
     setAnnouncement('Loading alerts...');
     try {
-      const { data } = await axios.get('http://localhost:3000/api/alerts');
+      const { data } = await api.get('/api/alerts');
       setAlerts(data.alerts || []);
       setAnnouncement(`Loaded ${data.alerts?.length || 0} alerts`);
     } catch (error) {
@@ -46,7 +53,7 @@ export default function Alerts() {
   const startTriage = async (alert: Alert) => {
     setAnnouncement('Starting triage analysis...');
     try {
-      const { data } = await axios.post('http://localhost:3000/api/triage', {
+      const { data } = await api.post('/api/triage', {
         alertId: alert.id
       });
       
@@ -111,6 +118,7 @@ export default function Alerts() {
                 <th scope="col">Customer</th>
                 <th scope="col">Risk Level</th>
                 <th scope="col">Reason</th>
+                <th scope="col">Last Triage</th>
                 <th scope="col">Created Date</th>
                 <th scope="col">Actions</th>
               </tr>
@@ -133,6 +141,21 @@ export default function Alerts() {
                   <td>
                     <span className="alert-reason">{alert.reason || 'Unknown'}</span>
                   </td>
+                  <td>
+                    {alert.triage_runs?.[0]?.risk ? (
+                      <div className="triage-cell">
+                        <span className={`badge ${getRiskClass(alert.triage_runs[0].risk)}`}>
+                          {alert.triage_runs[0].risk.toUpperCase()}
+                        </span>
+                        <span className="triage-recommendation">
+                          {alert.triage_runs[0].recommendation?.replace(/_/g, ' ')}
+                          {alert.triage_runs[0].trigger === 'auto' && ' (auto)'}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="alert-reason">Not triaged</span>
+                    )}
+                  </td>
                   <td>
                     <time dateTime={alert.created_at}>
                       {new Date(alert.created_at).toLocaleDateString('en-US', {